@@ -5,6 +5,15 @@ export interface Credentials {
   apiSecret: string;
 }
 
+/**
+ * Stand-in credentials for clients whose requests never reach the API,
+ * e.g. when replaying a cassette
+ */
+export const OFFLINE_CREDENTIALS: Credentials = {
+  apiKey: 'offline-key',
+  apiSecret: 'offline-secret'
+};
+
 export function fetchCredentials(): Credentials {
   // Check for single credentials field (v2 format: "KEY_ID:KEY_SECRET")
   const credentials = process.env.HF_CREDENTIALS || process.env.HF_KEY;
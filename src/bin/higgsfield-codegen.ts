@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import path from 'path';
+import { generateTypeDeclarations } from '../v2/codegen';
+import { SchemaRegistry } from '../v2/schema-registry';
+
+const USAGE = `Usage: higgsfield-codegen <schema.json|schema-dir>... [options]
+
+Generates TypeScript declarations for model schemas, typing subscribe() input
+for those endpoints.
+
+Options:
+  -o, --out <file>    Output .d.ts file (default: higgsfield-endpoints.d.ts)
+  --module <name>     Module to augment (default: @higgsfield/client/v2)
+  -h, --help          Show this help
+`;
+
+function main(argv: string[]): number {
+  const sources: string[] = [];
+  let out = 'higgsfield-endpoints.d.ts';
+  let moduleName: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-h' || arg === '--help') {
+      process.stdout.write(USAGE);
+      return 0;
+    } else if (arg === '-o' || arg === '--out') {
+      out = argv[++i];
+    } else if (arg === '--module') {
+      moduleName = argv[++i];
+    } else if (arg.startsWith('-')) {
+      process.stderr.write(`Unknown option: ${arg}\n\n${USAGE}`);
+      return 1;
+    } else {
+      sources.push(arg);
+    }
+  }
+
+  if (sources.length === 0 || !out) {
+    process.stderr.write(USAGE);
+    return 1;
+  }
+
+  const registry = new SchemaRegistry();
+  for (const source of sources) {
+    if (fs.statSync(source).isDirectory()) {
+      registry.loadDirectory(source);
+    } else {
+      registry.loadFile(source);
+    }
+  }
+
+  fs.mkdirSync(path.dirname(path.resolve(out)), { recursive: true });
+  fs.writeFileSync(out, generateTypeDeclarations(registry, { moduleName }));
+  process.stdout.write(`Wrote ${registry.size} endpoint type(s) to ${out}\n`);
+  return 0;
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (error) {
+  process.stderr.write(`${(error as Error).message}\n`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+import { startFakeServer, FakeServerOptions } from '../testing/server';
+
+const USAGE = `Usage: higgsfield-fake-server [options]
+
+Runs a local stand-in for the Higgsfield API. Point a client's baseURL at it.
+
+Options:
+  -p, --port <port>          Port to listen on (default: 8787, 0 for any free port)
+  --host <host>              Interface to bind (default: 127.0.0.1)
+  --step <ms>                How long each request status lasts (default: 100)
+  --latency <ms|min-max>     Delay every response, e.g. 50 or 20-300
+  --failure-rate <0..1>      Share of requests answered with a 5xx error
+  --failure-statuses <list>  Statuses used for failures (default: 500,502,503)
+  --webhook-secret <secret>  Secret sent with v2 webhook callbacks
+  -h, --help                 Show this help
+`;
+
+function parseNumber(name: string, value: string | undefined): number {
+  const number = Number(value);
+  if (value === undefined || value === '' || !Number.isFinite(number) || number < 0) {
+    throw new Error(`${name} expects a non-negative number, got: ${value}`);
+  }
+  return number;
+}
+
+function parseArgs(argv: string[]): FakeServerOptions | undefined {
+  const options: FakeServerOptions = { port: 8787 };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-h' || arg === '--help') {
+      return undefined;
+    } else if (arg === '-p' || arg === '--port') {
+      options.port = parseNumber(arg, argv[++i]);
+    } else if (arg === '--host') {
+      options.host = argv[++i];
+    } else if (arg === '--step') {
+      options.stepDuration = parseNumber(arg, argv[++i]);
+    } else if (arg === '--latency') {
+      const [min, max] = (argv[++i] || '').split('-');
+      options.latency =
+        max === undefined
+          ? parseNumber(arg, min)
+          : { min: parseNumber(arg, min), max: parseNumber(arg, max) };
+    } else if (arg === '--failure-rate') {
+      options.failureRate = parseNumber(arg, argv[++i]);
+      if (options.failureRate > 1) {
+        throw new Error(`${arg} must be between 0 and 1`);
+      }
+    } else if (arg === '--failure-statuses') {
+      options.failureStatuses = (argv[++i] || '').split(',').map((s) => parseNumber(arg, s));
+    } else if (arg === '--webhook-secret') {
+      options.webhookSecret = argv[++i];
+    } else {
+      throw new Error(`Unknown option: ${arg}\n\n${USAGE}`);
+    }
+  }
+  return options;
+}
+
+async function main(argv: string[]): Promise<void> {
+  const options = parseArgs(argv);
+  if (!options) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const server = await startFakeServer({
+    ...options,
+    onWebhook: (delivery) => {
+      const outcome = delivery.error ? delivery.error.message : `HTTP ${delivery.status}`;
+      process.stdout.write(`Webhook for ${delivery.requestId} to ${delivery.url}: ${outcome}\n`);
+    },
+  });
+  process.stdout.write(`Fake Higgsfield API listening on ${server.url}\n`);
+
+  const shutdown = () => {
+    server.close().finally(() => process.exit(0));
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  process.stderr.write(`${(error as Error).message}\n`);
+  process.exitCode = 1;
+});
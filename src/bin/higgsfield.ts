@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+import { runCli } from '../cli/run';
+
+runCli(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    process.stderr.write(`${(error as Error).message}\n`);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,118 @@
+import path from 'path';
+import { pathToFileURL } from 'url';
+
+/**
+ * Invalid command line; reported with the usage text and exit code 2
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export interface FlagSpec {
+  values?: string[]; // Flags followed by a value, e.g. 'out'
+  repeatable?: string[]; // Value flags that may be given more than once, e.g. 'set'
+  booleans?: string[]; // Flags without a value, e.g. 'json'; '--no-<flag>' sets them false
+  aliases?: Record<string, string>; // Short flags, e.g. { o: 'out' }
+}
+
+export interface ParsedArgs {
+  positionals: string[];
+  values: Record<string, string[]>;
+  booleans: Record<string, boolean>;
+}
+
+/**
+ * Splits argv into positionals and the flags allowed by `spec`.
+ * Accepts `--flag value`, `--flag=value` and `-f value`.
+ * @throws UsageError for unknown flags and missing values
+ */
+export function parseArgs(argv: string[], spec: FlagSpec): ParsedArgs {
+  const valueFlags = [...(spec.values || []), ...(spec.repeatable || [])];
+  const booleanFlags = spec.booleans || [];
+  const parsed: ParsedArgs = { positionals: [], values: {}, booleans: {} };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--') {
+      parsed.positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith('-') || arg === '-') {
+      parsed.positionals.push(arg);
+      continue;
+    }
+
+    const [flag, inlineValue] = splitFlag(arg);
+    const name = spec.aliases?.[flag] ?? flag;
+
+    if (booleanFlags.includes(name) && inlineValue === undefined) {
+      parsed.booleans[name] = true;
+    } else if (name.startsWith('no-') && booleanFlags.includes(name.slice(3))) {
+      parsed.booleans[name.slice(3)] = false;
+    } else if (valueFlags.includes(name)) {
+      const value = inlineValue ?? argv[++i];
+      if (value === undefined) {
+        throw new UsageError(`--${name} expects a value`);
+      }
+      if (parsed.values[name] && !spec.repeatable?.includes(name)) {
+        throw new UsageError(`--${name} can only be given once`);
+      }
+      (parsed.values[name] ||= []).push(value);
+    } else {
+      throw new UsageError(`Unknown option: ${arg}`);
+    }
+  }
+
+  return parsed;
+}
+
+function splitFlag(arg: string): [string, string | undefined] {
+  const name = arg.replace(/^--?/, '');
+  const equals = name.indexOf('=');
+  return equals === -1 ? [name, undefined] : [name.slice(0, equals), name.slice(equals + 1)];
+}
+
+/**
+ * Applies `key=value` assignments to an input object.
+ * Dotted keys create nested objects, values are parsed as JSON when they are valid JSON
+ * (numbers, booleans, arrays, objects) and kept as strings otherwise, and `@path` refers to a
+ * local file, which the client uploads before submitting.
+ * @example
+ * applyAssignments({}, ['prompt=a cat', 'seed=42', 'image_reference.image_url=@cat.png']);
+ */
+export function applyAssignments(
+  input: Record<string, any>,
+  assignments: string[]
+): Record<string, any> {
+  for (const assignment of assignments) {
+    const equals = assignment.indexOf('=');
+    if (equals <= 0) {
+      throw new UsageError(`Expected key=value, got: ${assignment}`);
+    }
+
+    const keys = assignment.slice(0, equals).split('.');
+    let target = input;
+    for (const key of keys.slice(0, -1)) {
+      if (typeof target[key] !== 'object' || target[key] === null) {
+        target[key] = {};
+      }
+      target = target[key];
+    }
+    target[keys[keys.length - 1]] = parseValue(assignment.slice(equals + 1));
+  }
+  return input;
+}
+
+function parseValue(value: string): unknown {
+  if (value.startsWith('@') && value.length > 1) {
+    return pathToFileURL(path.resolve(value.slice(1))).href;
+  }
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    return value;
+  }
+}
@@ -0,0 +1,114 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FakeServer, startFakeServer } from '../testing/server';
+import { applyAssignments, parseArgs, UsageError } from './args';
+import { runCli } from './run';
+
+describe('CLI', () => {
+  const originalEnv = { ...process.env };
+  let server: FakeServer;
+  let dir: string;
+
+  beforeEach(async () => {
+    server = await startFakeServer({ stepDuration: 5 });
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'higgsfield-cli-test-'));
+    process.env.HF_CREDENTIALS = 'cli-key:cli-secret';
+  });
+
+  afterEach(async () => {
+    process.env = { ...originalEnv };
+    await server.close();
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  async function run(...argv: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+    let stdout = '';
+    let stderr = '';
+    const code = await runCli([...argv, '--base-url', server.url], {
+      stdout: { write: (text: string) => (stdout += text) },
+      stderr: { write: (text: string) => (stderr += text) },
+      clientConfig: { pollInterval: 5, retryBackoff: 1, retryMaxBackoff: 5 },
+    });
+    return { code, stdout, stderr };
+  }
+
+  it('should parse --set values into nested input', () => {
+    expect(
+      applyAssignments({ seed: 1 }, ['prompt=a cat', 'batch_size=4', 'ref.strength=0.5'])
+    ).toEqual({ seed: 1, prompt: 'a cat', batch_size: 4, ref: { strength: 0.5 } });
+    expect(applyAssignments({}, ['image=@cat.png']).image).toMatch(/^file:\/\/.*\/cat\.png$/);
+    expect(() => parseArgs(['--bogus'], {})).toThrow(UsageError);
+  });
+
+  it('should generate, report progress and print JSON for scripting', async () => {
+    const inputFile = path.join(dir, 'input.json');
+    await fs.promises.writeFile(inputFile, JSON.stringify({ prompt: 'a fox', seed: 1 }));
+
+    const { code, stdout, stderr } = await run(
+      'generate',
+      '/nano-banana-pro',
+      '--input',
+      inputFile,
+      '--set',
+      'seed=7',
+      '--json'
+    );
+
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout)).toMatchObject({ status: 'completed', images: [expect.anything()] });
+    expect(stderr).toMatch(/queued/);
+    expect(server.backend.submissions[0].input).toEqual({ prompt: 'a fox', seed: 7 });
+  });
+
+  it('should exit with 1 when a generation does not complete', async () => {
+    server.backend.script('/nano-banana-pro', { statuses: ['queued', 'nsfw'] });
+
+    const { code, stdout } = await run('generate', '/nano-banana-pro', '--set', 'prompt=x');
+
+    expect(code).toBe(1);
+    expect(stdout).toContain('nsfw');
+  });
+
+  it('should submit without waiting, then check status and download', async () => {
+    const submitted = await run('generate', '/nano-banana-pro', '-s', 'prompt=x', '--no-wait');
+    const [requestId] = submitted.stdout.split(/\s+/);
+    expect(submitted.stdout).toContain('queued');
+
+    const status = await run('status', requestId, '--json');
+    expect(JSON.parse(status.stdout).request_id).toBe(requestId);
+
+    const download = await run('download', requestId, '-o', dir, '--json');
+    expect(download.code).toBe(0);
+    const [file] = JSON.parse(download.stdout);
+    expect(fs.existsSync(file.path)).toBe(true);
+  });
+
+  it('should upload files and manage Soul IDs', async () => {
+    const imagePath = path.join(dir, 'face.png');
+    await fs.promises.writeFile(imagePath, Buffer.from('89504e470d0a1a0a', 'hex'));
+
+    const upload = await run('upload', imagePath);
+    expect(upload.stdout.trim()).toMatch(new RegExp(`^${server.url}/__cdn/uploads/`));
+
+    const created = await run('soul-ids', 'create', '--name', 'Me', '--image', imagePath, '--json');
+    expect(created.code).toBe(0);
+    expect(JSON.parse(created.stdout)).toMatchObject({ name: 'Me', status: 'completed' });
+
+    const list = await run('soul-ids', 'list');
+    expect(list.stdout).toMatch(/Me\s+completed/);
+
+    const motions = await run('motions', '--json');
+    expect(JSON.parse(motions.stdout).length).toBeGreaterThan(0);
+  });
+
+  it('should report usage and missing credentials', async () => {
+    expect((await run('generate', '/nano-banana-pro')).code).toBe(2);
+    expect((await run('frobnicate')).code).toBe(2);
+
+    delete process.env.HF_CREDENTIALS;
+    const { code, stderr } = await run('styles');
+    expect(code).toBe(1);
+    expect(stderr).toContain('CredentialsMissedError');
+  });
+});
@@ -0,0 +1,412 @@
+import fs from 'fs';
+import { fetchCredentials } from '../auth';
+import { HiggsfieldClient as V1Client } from '../client';
+import { ClientConfig } from '../config';
+import { downloadResult } from '../download';
+import { HiggsfieldError } from '../errors';
+import { InputImageType, SoulIdListResponse } from '../types';
+import { createHiggsfieldClient, HiggsfieldClient } from '../v2/client';
+import { V2Response } from '../v2/types';
+import { applyAssignments, FlagSpec, parseArgs, ParsedArgs, UsageError } from './args';
+
+export interface CliOutput {
+  write(text: string): unknown;
+  isTTY?: boolean;
+}
+
+export interface CliOptions {
+  stdout?: CliOutput;
+  stderr?: CliOutput;
+  clientConfig?: Partial<ClientConfig>; // Merged into the config of both API clients
+}
+
+interface CliContext {
+  args: ParsedArgs;
+  json: boolean;
+  stdout: CliOutput;
+  stderr: CliOutput;
+  v2(): HiggsfieldClient;
+  v1(): V1Client;
+}
+
+interface Command {
+  usage: string;
+  flags?: FlagSpec;
+  run(context: CliContext): Promise<number>;
+}
+
+const USAGE = `Usage: higgsfield <command> [options]
+
+Commands:
+  generate <endpoint>      Submit a generation and wait for it to finish
+  status <request-id>      Print the status of a request
+  cancel <request-id>      Cancel a queued request
+  download <request-id>    Wait for a request and download its outputs
+  upload <file>            Upload a file and print its public URL
+  soul-ids list            List Soul IDs
+  soul-ids create          Train a Soul ID from reference images
+  motions                  List motions for image-to-video
+  styles                   List Soul styles for text-to-image
+
+Global options:
+  --json                   Print machine-readable JSON to stdout
+  --base-url <url>         API base URL (default: https://platform.higgsfield.ai)
+  -h, --help               Show help for a command
+
+Credentials are read from HF_CREDENTIALS ("KEY_ID:KEY_SECRET"),
+or HF_API_KEY and HF_API_SECRET.
+`;
+
+const GLOBAL_FLAGS = { values: ['base-url'], booleans: ['json', 'help'], aliases: { h: 'help' } };
+
+const COMMANDS: Record<string, Command> = {
+  generate: {
+    usage: `Usage: higgsfield generate <endpoint> [--input file.json] [--set key=value]...
+
+Options:
+  -i, --input <file>       JSON file with the request input
+  -s, --set <key=value>    Set an input field; dotted keys nest, values are parsed as JSON
+                           when possible, and @path uploads a local file
+  --no-wait                Print the request id without waiting for the result
+  -o, --download <dir>     Download the outputs once completed
+
+Example:
+  higgsfield generate /v1/text2image/soul --set prompt="a cat in a hat" \\
+    --set width_and_height=1152x2048 --set quality=1080p --set batch_size=1
+`,
+    flags: {
+      values: ['input', 'download'],
+      repeatable: ['set'],
+      booleans: ['wait'],
+      aliases: { i: 'input', s: 'set', o: 'download' },
+    },
+    run: generate,
+  },
+  status: {
+    usage: 'Usage: higgsfield status <request-id>\n',
+    run: async (context) => {
+      const response = await context.v2().queue.status(requireArg(context, 'request-id'));
+      printResponse(context, response);
+      return 0;
+    },
+  },
+  cancel: {
+    usage: 'Usage: higgsfield cancel <request-id>\n',
+    run: async (context) => {
+      const requestId = requireArg(context, 'request-id');
+      await context.v2().cancel(requestId);
+      print(context, { request_id: requestId, canceled: true }, `Canceled ${requestId}`);
+      return 0;
+    },
+  },
+  download: {
+    usage: `Usage: higgsfield download <request-id> [-o dir]
+
+Waits for the request to finish, then downloads every output.
+
+Options:
+  -o, --out <dir>          Directory to write to (default: current directory)
+`,
+    flags: { values: ['out'], aliases: { o: 'out' } },
+    run: async (context) => {
+      const response = await context.v2().queue.result(requireArg(context, 'request-id'));
+      return downloadOutputs(context, response, context.args.values.out?.[0] ?? '.');
+    },
+  },
+  upload: {
+    usage: 'Usage: higgsfield upload <file>\n',
+    run: async (context) => {
+      const url = await context.v2().storage.upload(requireArg(context, 'file'));
+      print(context, { url }, url);
+      return 0;
+    },
+  },
+  'soul-ids': {
+    usage: `Usage: higgsfield soul-ids list [--page n] [--page-size n]
+       higgsfield soul-ids create --name <name> --image <url|file>... [--no-wait]
+
+Options:
+  --name <name>            Name of the new Soul ID
+  --image <url|file>       Reference image; local files are uploaded first
+  --no-wait                Print the Soul ID without waiting for training
+`,
+    flags: {
+      values: ['page', 'page-size', 'name'],
+      repeatable: ['image'],
+      booleans: ['wait'],
+    },
+    run: soulIds,
+  },
+  motions: {
+    usage: 'Usage: higgsfield motions\n',
+    run: async (context) => {
+      const motions = await context.v1().getMotions();
+      print(context, motions, table(motions.map((m) => [m.id, m.name, m.description ?? ''])));
+      return 0;
+    },
+  },
+  styles: {
+    usage: 'Usage: higgsfield styles\n',
+    run: async (context) => {
+      const styles = await context.v1().getSoulStyles();
+      print(context, styles, table(styles.map((s) => [s.id, s.name, s.description])));
+      return 0;
+    },
+  },
+};
+
+/**
+ * Runs the `higgsfield` command line
+ * @returns The process exit code: 0 on success, 1 on failures, 2 on usage errors
+ */
+export async function runCli(argv: string[], options: CliOptions = {}): Promise<number> {
+  const stdout = options.stdout ?? process.stdout;
+  const stderr = options.stderr ?? process.stderr;
+  const [name, ...rest] = argv;
+
+  if (!name) {
+    stderr.write(USAGE);
+    return 2;
+  }
+  if (name === '-h' || name === '--help' || name === 'help') {
+    stdout.write(USAGE);
+    return 0;
+  }
+
+  const command = COMMANDS[name];
+  if (!command) {
+    stderr.write(`Unknown command: ${name}\n\n${USAGE}`);
+    return 2;
+  }
+
+  let json = rest.includes('--json');
+  try {
+    const flags = command.flags || {};
+    const args = parseArgs(rest, {
+      values: [...GLOBAL_FLAGS.values, ...(flags.values || [])],
+      repeatable: flags.repeatable,
+      booleans: [...GLOBAL_FLAGS.booleans, ...(flags.booleans || [])],
+      aliases: { ...GLOBAL_FLAGS.aliases, ...flags.aliases },
+    });
+    if (args.booleans.help) {
+      stdout.write(command.usage);
+      return 0;
+    }
+    json = !!args.booleans.json;
+
+    const clientConfig: Partial<ClientConfig> = {
+      ...(args.values['base-url'] ? { baseURL: args.values['base-url'][0] } : {}),
+      ...options.clientConfig,
+    };
+    let v2: HiggsfieldClient | undefined;
+    let v1: V1Client | undefined;
+
+    return await command.run({
+      args,
+      json,
+      stdout,
+      stderr,
+      v2: () => {
+        const { apiKey, apiSecret } = fetchCredentials();
+        return (v2 ??= createHiggsfieldClient({
+          ...clientConfig,
+          credentials: `${apiKey}:${apiSecret}`,
+        }));
+      },
+      v1: () => (v1 ??= new V1Client({ ...clientConfig, ...fetchCredentials() })),
+    });
+  } catch (error) {
+    if (error instanceof UsageError) {
+      stderr.write(`${error.message}\n\n${command.usage}`);
+      return 2;
+    }
+    reportError(stderr, error, json);
+    return 1;
+  }
+}
+
+async function generate(context: CliContext): Promise<number> {
+  const { args } = context;
+  const endpoint = requireArg(context, 'endpoint');
+  const inputFile = args.values.input?.[0];
+  const assignments = args.values.set || [];
+  if (!inputFile && assignments.length === 0) {
+    throw new UsageError('Pass the input with --input <file.json> or --set key=value');
+  }
+
+  let input: Record<string, any> = {};
+  if (inputFile) {
+    input = JSON.parse(await fs.promises.readFile(inputFile, 'utf8'));
+  }
+  applyAssignments(input, assignments);
+
+  const client = context.v2();
+  if (args.booleans.wait === false) {
+    const response = await client.queue.submit(endpoint, { input });
+    printResponse(context, response);
+    return 0;
+  }
+
+  const progress = startProgress(context.stderr);
+  let response: V2Response;
+  try {
+    response = await client.subscribe(endpoint, { input, onQueueUpdate: progress.update });
+  } finally {
+    progress.stop();
+  }
+
+  printResponse(context, response);
+  if (response.status !== 'completed') {
+    return 1;
+  }
+  const dir = args.values.download?.[0];
+  return dir ? downloadOutputs(context, response, dir) : 0;
+}
+
+async function soulIds(context: CliContext): Promise<number> {
+  const { args } = context;
+  const action = requireArg(context, 'list|create');
+
+  if (action === 'list') {
+    const page = Number(args.values.page?.[0] ?? 1);
+    const pageSize = Number(args.values['page-size']?.[0] ?? 20);
+    const list: SoulIdListResponse = await context.v1().listSoulIds(page, pageSize);
+    const items = list.items.map(({ id, name, status }) => ({ id, name, status }));
+    print(
+      context,
+      { ...list, items },
+      `${table(items.map((item) => [item.id, item.name, item.status]))}\n` +
+        `Page ${list.page} of ${list.total_pages} (${list.total} total)`
+    );
+    return 0;
+  }
+
+  if (action === 'create') {
+    const name = args.values.name?.[0];
+    const images = args.values.image || [];
+    if (!name || images.length === 0) {
+      throw new UsageError('soul-ids create needs --name and at least one --image');
+    }
+
+    const imageUrls: string[] = [];
+    for (const image of images) {
+      imageUrls.push(/^https?:\/\//.test(image) ? image : await context.v2().storage.upload(image));
+    }
+
+    const soulId = await context.v1().createSoulId(
+      {
+        name,
+        input_images: imageUrls.map((url) => ({
+          type: InputImageType.IMAGE_URL,
+          image_url: url,
+        })),
+      },
+      args.booleans.wait !== false
+    );
+    const { id, status } = soulId;
+    print(context, { id, name: soulId.name, status }, `${id}  ${soulId.name}  ${status}`);
+    return soulId.isFailed ? 1 : 0;
+  }
+
+  throw new UsageError(`Unknown soul-ids command: ${action}`);
+}
+
+async function downloadOutputs(
+  context: CliContext,
+  response: V2Response,
+  dir: string
+): Promise<number> {
+  if (response.status !== 'completed') {
+    throw new HiggsfieldError(
+      `Request ${response.request_id} finished with status ${response.status}, nothing to download`
+    );
+  }
+  const files = await downloadResult(response, dir);
+  print(context, files, files.map((file) => file.path).join('\n'));
+  return 0;
+}
+
+function requireArg(context: CliContext, name: string): string {
+  const value = context.args.positionals[0];
+  if (!value) {
+    throw new UsageError(`Missing <${name}>`);
+  }
+  return value;
+}
+
+function print(context: CliContext, data: unknown, text: string): void {
+  context.stdout.write(context.json ? `${JSON.stringify(data, null, 2)}\n` : `${text}\n`);
+}
+
+function printResponse(context: CliContext, response: V2Response): void {
+  const lines = [`${response.request_id}  ${response.status}`];
+  if (response.status === 'failed' || response.status === 'nsfw') {
+    lines.push(...[response.error, response.reason].filter((line): line is string => !!line));
+  }
+  lines.push(...(response.images || []).map((image) => image.url));
+  if (response.video) {
+    lines.push(response.video.url);
+  }
+  print(context, response, lines.join('\n'));
+}
+
+function table(rows: string[][]): string {
+  const widths = rows.reduce<number[]>(
+    (max, row) => row.map((cell, i) => Math.max(max[i] ?? 0, cell.length)),
+    []
+  );
+  return rows
+    .map((row) =>
+      row.map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i]))).join('  ')
+    )
+    .join('\n');
+}
+
+function reportError(stderr: CliOutput, error: unknown, json: boolean): void {
+  const { name = 'Error', message = String(error) } = error as Error;
+  if (json) {
+    const { requestId, statusCode } = error as { requestId?: string; statusCode?: number };
+    stderr.write(`${JSON.stringify({ error: { name, message, requestId, statusCode } })}\n`);
+  } else {
+    stderr.write(`${name}: ${message}\n`);
+  }
+}
+
+/**
+ * Shows the status of a polled request on stderr.
+ * Terminals get one line that is redrawn every second; other outputs get a line per status.
+ */
+function startProgress(stderr: CliOutput): {
+  update: (response: V2Response) => void;
+  stop: () => void;
+} {
+  const started = Date.now();
+  let current: V2Response | undefined;
+  let timer: NodeJS.Timeout | undefined;
+
+  const line = () => {
+    const seconds = Math.round((Date.now() - started) / 1000);
+    return `${current!.request_id}  ${current!.status}  ${seconds}s`;
+  };
+
+  return {
+    update(response) {
+      const changed = response.status !== current?.status;
+      current = response;
+      if (stderr.isTTY) {
+        stderr.write(`\r\x1b[K${line()}`);
+        timer ??= setInterval(() => stderr.write(`\r\x1b[K${line()}`), 1000);
+      } else if (changed) {
+        stderr.write(`${line()}\n`);
+      }
+    },
+    stop() {
+      if (timer) {
+        clearInterval(timer);
+      }
+      if (stderr.isTTY && current) {
+        stderr.write('\n');
+      }
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import { AxiosAdapter } from 'axios';
+import { HiggsfieldClient } from './client';
+import { AbortError } from './errors';
+import { FakeBackend } from './testing/fake-backend';
+import { InputImageType } from './types';
+
+describe('V1 Client', () => {
+  // Aborts `controller` as soon as a request matching `pattern` is sent
+  function abortingAdapter(backend: FakeBackend, controller: AbortController, pattern: RegExp) {
+    const adapter: AxiosAdapter = (config) => {
+      if (pattern.test(config.url || '')) {
+        controller.abort();
+      }
+      return backend.adapter(config);
+    };
+    return adapter;
+  }
+
+  function createClient(adapter: AxiosAdapter): HiggsfieldClient {
+    return new HiggsfieldClient({
+      apiKey: 'test-key',
+      apiSecret: 'test-secret',
+      baseURL: 'https://api.test',
+      pollInterval: 1000,
+      adapter,
+    });
+  }
+
+  describe('Abort', () => {
+    it('should reject with AbortError when generate is aborted while polling', async () => {
+      const backend = new FakeBackend({ baseURL: 'https://api.test' });
+      const controller = new AbortController();
+      const client = createClient(abortingAdapter(backend, controller, /^\/v1\/job-sets\//));
+
+      await expect(
+        client.generate('/v1/text2image/soul', { prompt: 'a fox' }, { signal: controller.signal })
+      ).rejects.toThrow(AbortError);
+    });
+
+    it('should reject with AbortError when Soul ID training polling is aborted', async () => {
+      const backend = new FakeBackend({ baseURL: 'https://api.test' });
+      const controller = new AbortController();
+      const client = createClient(
+        abortingAdapter(backend, controller, /^\/v1\/custom-references\/(?!list)/)
+      );
+
+      await expect(
+        client.createSoulId(
+          {
+            name: 'Me',
+            input_images: [{ type: InputImageType.IMAGE_URL, image_url: 'https://cdn/me.png' }],
+          },
+          true,
+          { signal: controller.signal }
+        )
+      ).rejects.toThrow(AbortError);
+    });
+
+    it('should reject with AbortError when an upload is aborted', async () => {
+      const backend = new FakeBackend({ baseURL: 'https://api.test' });
+      const controller = new AbortController();
+      const client = createClient(abortingAdapter(backend, controller, /generate-upload-url/));
+
+      await expect(
+        client.upload(Buffer.from('image-bytes'), 'image/png', { signal: controller.signal })
+      ).rejects.toThrow(AbortError);
+      expect([...backend.uploads.values()].every((upload) => !upload.data)).toBe(true);
+    });
+  });
+});
@@ -1,11 +1,18 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
-import { Config, ClientConfig } from './config';
-import { fetchCredentials, Credentials } from './auth';
-import { APIError, AuthenticationError, BadInputError, NotEnoughCreditsError, ValidationError } from './errors';
-import { GenerateParams, UploadResponse, WebhookPayload, SoulStyle, Motion, SoulIdCreateData, SoulIdListResponse } from './types';
+import axios, { AxiosInstance } from 'axios';
+import { Config, ClientConfig, RetryOptions } from './config';
+import { fetchCredentials, Credentials, OFFLINE_CREDENTIALS } from './auth';
+import { RateLimitError } from './errors';
+import { GenerateParams, PollOptions, UploadSource, WebhookPayload, SoulStyle, Motion, SoulIdCreateData, SoulIdListResponse } from './types';
 import { JobSet } from './models/JobSet';
 import { SoulId } from './models/SoulId';
-import { retryWithBackoff } from './utils/retry';
+import { throwIfAborted } from './utils/abort';
+import { createIdempotencyKey, IDEMPOTENCY_KEY_HEADER, tagWithIdempotencyKey } from './utils/idempotency';
+import { clientAdapter, isOfflineConfig } from './utils/cassette';
+import { RateLimiter } from './utils/rate-limiter';
+import { mapRequestError } from './utils/error-mapper';
+import { failureReason, generationError } from './utils/generation-errors';
+import { resolveRetryConfig, retryWithBackoff } from './utils/retry';
+import { uploadFile, UploadOptions } from './utils/upload';
 
 export class HiggsfieldClient {
   private config: Config;
@@ -21,12 +28,20 @@ export class HiggsfieldClient {
         apiSecret: this.config.apiSecret
       };
     } else {
-      this.credentials = fetchCredentials();
+      try {
+        this.credentials = fetchCredentials();
+      } catch (error) {
+        if (!isOfflineConfig(this.config)) {
+          throw error;
+        }
+        this.credentials = OFFLINE_CREDENTIALS;
+      }
     }
 
     this.client = axios.create({
       baseURL: this.config.baseURL,
       timeout: this.config.timeout,
+      adapter: clientAdapter(this.config),
       headers: {
         'hf-api-key': this.credentials.apiKey,
         'hf-secret': this.credentials.apiSecret,
@@ -35,32 +50,22 @@ export class HiggsfieldClient {
       }
     });
 
+    const rateLimiter = this.config.rateLimit ? new RateLimiter(this.config.rateLimit) : undefined;
+    if (rateLimiter) {
+      this.client.interceptors.request.use(async request => {
+        await rateLimiter.acquire(request.signal as AbortSignal | undefined);
+        return request;
+      });
+    }
+
     this.client.interceptors.response.use(
       response => response,
-      (error: AxiosError<{ detail?: string | Array<{
-        type: string;
-        loc: string[];
-        msg: string;
-        input?: any;
-        ctx?: Record<string, any>;
-      }> }>) => {
-        if (error.response?.status === 401) {
-          throw new AuthenticationError('Invalid API credentials');
-        } else if(error.response?.status === 403) {
-          throw new NotEnoughCreditsError
-        } else if(error.response?.status === 422) {
-          throw new ValidationError(error.response?.data?.detail)
-        } else if(error.response?.status === 400) {
-          throw new BadInputError(error.response?.data?.detail)
+      error => {
+        const mapped = mapRequestError(error);
+        if (mapped instanceof RateLimitError && mapped.retryAfter !== undefined) {
+          rateLimiter?.pause(mapped.retryAfter);
         }
-        if (error.response) {
-          throw new APIError(
-            error.message,
-            error.response.status,
-            error.response.data
-          );
-        }
-        throw error;
+        throw mapped;
       }
     );
   }
@@ -74,43 +79,81 @@ export class HiggsfieldClient {
     options?: {
       webhook?: WebhookPayload;
       withPolling?: boolean;
+      signal?: AbortSignal;
+      retry?: RetryOptions;
+      idempotencyKey?: string; // Sent on every attempt of this submission (default: random UUID)
+      throwOnFailure?: boolean; // Reject when a job failed, was canceled or flagged NSFW (default: false)
     }
   ): Promise<JobSet> {
     const requestBody: any = { params };
+    const idempotencyKey = options?.idempotencyKey ?? createIdempotencyKey();
     
     // Only include webhook if provided
     if (options?.webhook) {
       requestBody.webhook = options.webhook;
     }
 
-    const response = await retryWithBackoff(
-      () => this.client.post(endpoint, requestBody),
-      {
-        maxRetries: this.config.maxRetries,
-        backoff: this.config.retryBackoff,
-        maxBackoff: this.config.retryMaxBackoff
+    try {
+      // The same key on every attempt lets the API drop duplicates of a retried POST
+      const response = await retryWithBackoff(
+        () => this.client.post(endpoint, requestBody, {
+          signal: options?.signal,
+          headers: { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey }
+        }),
+        resolveRetryConfig(this.config, options?.retry, options?.signal)
+      );
+
+      const jobSet = new JobSet(response.data);
+      jobSet.idempotencyKey = idempotencyKey;
+      
+      const withPolling = options?.withPolling ?? true;
+      if (withPolling) {
+        await jobSet.poll(this.client, this.config, { signal: options?.signal });
       }
-    );
 
-    const jobSet = new JobSet(response.data);
-    
-    const withPolling = options?.withPolling ?? true;
-    if (withPolling) {
-      await jobSet.poll(this.client, this.config);
+      if (options?.throwOnFailure) {
+        this.throwIfUnsuccessful(jobSet, endpoint, params);
+      }
+
+      return jobSet;
+    } catch (error) {
+      throw tagWithIdempotencyKey(error, idempotencyKey);
     }
+  }
 
-    return jobSet;
+  private throwIfUnsuccessful(jobSet: JobSet, endpoint: string, params: GenerateParams): void {
+    const status = jobSet.isNsfw
+      ? 'nsfw'
+      : jobSet.isFailed
+        ? 'failed'
+        : jobSet.isCanceled
+          ? 'canceled'
+          : undefined;
+    const failure = status && generationError(status, {
+      requestId: jobSet.id,
+      endpoint,
+      input: params,
+      reason: failureReason(jobSet.jobs.find(job => job.status === status)),
+      response: jobSet
+    });
+    if (failure) {
+      throw failure;
+    }
   }
 
   async createSoulId(
     data: SoulIdCreateData,
-    withPolling?: boolean
+    withPolling?: boolean,
+    options?: PollOptions
   ): Promise<SoulId> {
-    const response = await this.client.post('/v1/custom-references', data);
+    throwIfAborted(options?.signal);
+    const response = await this.client.post('/v1/custom-references', data, {
+      signal: options?.signal
+    });
     const soulId = new SoulId(response.data);
 
     if (withPolling ?? true) {
-      await soulId.poll(this.client, this.config);
+      await soulId.poll(this.client, this.config, options);
     }
 
     return soulId;
@@ -133,31 +176,17 @@ export class HiggsfieldClient {
     };
   }
 
-  /**
-   * Get upload link for file uploads (internal method)
-   */
-  private async getUploadLink(contentType: string): Promise<UploadResponse> {
-    const response = await this.client.post('/files/generate-upload-url', {
-      content_type: contentType
-    });
-    
-    return {
-      upload_url: response.data.upload_url,
-      public_url: response.data.public_url
-    };
-  }
-
   /**
    * Upload data to Higgsfield CDN
+   * Accepts a Buffer, Uint8Array, Blob, readable stream, file path or file:// URL.
+   * Files and streams are streamed from disk, and failed transfers are retried.
    */
-  async upload(data: Buffer | Uint8Array, contentType: string): Promise<string> {
-    const { upload_url, public_url } = await this.getUploadLink(contentType);
-
-    await axios.put(upload_url, data, {
-      headers: { 'Content-Type': contentType }
-    });
-
-    return public_url;
+  async upload(
+    data: UploadSource,
+    contentType?: string,
+    options?: Omit<UploadOptions, 'contentType'>
+  ): Promise<string> {
+    return uploadFile(this.client, this.config, data, { ...options, contentType });
   }
 
   /**
@@ -165,9 +194,10 @@ export class HiggsfieldClient {
    */
   async uploadImage(
     imageBuffer: Buffer,
-    format: 'jpeg' | 'png' | 'webp' = 'jpeg'
+    format: 'jpeg' | 'png' | 'webp' = 'jpeg',
+    options?: Omit<UploadOptions, 'contentType'>
   ): Promise<string> {
-    return this.upload(imageBuffer, `image/${format}`);
+    return this.upload(imageBuffer, `image/${format}`, options);
   }
 
   /**
@@ -177,11 +207,7 @@ export class HiggsfieldClient {
   async getMotions(): Promise<Motion[]> {
     const response = await retryWithBackoff(
       () => this.client.get<Motion[]>('/v1/motions'),
-      {
-        maxRetries: this.config.maxRetries,
-        backoff: this.config.retryBackoff,
-        maxBackoff: this.config.retryMaxBackoff
-      }
+      resolveRetryConfig(this.config)
     );
     
     return response.data;
@@ -194,11 +220,7 @@ export class HiggsfieldClient {
   async getSoulStyles(): Promise<SoulStyle[]> {
     const response = await retryWithBackoff(
       () => this.client.get<SoulStyle[]>('/v1/text2image/soul-styles'),
-      {
-        maxRetries: this.config.maxRetries,
-        backoff: this.config.retryBackoff,
-        maxBackoff: this.config.retryMaxBackoff
-      }
+      resolveRetryConfig(this.config)
     );
     
     return response.data;
@@ -1,3 +1,12 @@
+import { AxiosAdapter } from 'axios';
+import { Cassette, CassetteOptions } from './utils/cassette';
+import { RetryContext, RetryPredicate, RetryStrategy } from './utils/retry';
+
+export interface RateLimitConfig {
+  requestsPerSecond: number; // Sustained request rate
+  burst?: number; // Requests allowed at once before throttling (default: requestsPerSecond, at least 1)
+}
+
 export interface ClientConfig {
   apiKey?: string;
   apiSecret?: string;
@@ -5,12 +14,26 @@ export interface ClientConfig {
   maxRetries?: number;
   retryBackoff?: number;
   retryMaxBackoff?: number;
+  retryStrategy?: RetryStrategy; // Delay growth between attempts (default: 'exponential')
+  shouldRetry?: RetryPredicate; // Decide whether an error is retried (default: isRetryableError)
+  onRetry?: (context: RetryContext) => void; // Called before every retry
   pollInterval?: number;
   maxPollTime?: number;
   headers?: Record<string, string>;
   baseURL?: string;
+  rateLimit?: RateLimitConfig; // Throttle all requests made by a client
+  adapter?: AxiosAdapter; // Send requests through this adapter instead of the network
+  cassette?: Cassette | CassetteOptions; // Record requests to a file, or replay them offline
 }
 
+// Retry settings that can be overridden for a single call
+export type RetryOptions = Partial<
+  Pick<
+    ClientConfig,
+    'maxRetries' | 'retryBackoff' | 'retryMaxBackoff' | 'retryStrategy' | 'shouldRetry' | 'onRetry'
+  >
+>;
+
 export class Config implements ClientConfig {
   apiKey?: string;
   apiSecret?: string;
@@ -18,10 +41,16 @@ export class Config implements ClientConfig {
   maxRetries: number = 3;
   retryBackoff: number = 1000; // ms
   retryMaxBackoff: number = 60000; // ms
+  retryStrategy: RetryStrategy = 'exponential';
+  shouldRetry?: RetryPredicate;
+  onRetry?: (context: RetryContext) => void;
   pollInterval: number = 2000; // ms
   maxPollTime: number = 300000; // ms
   headers: Record<string, string> = {};
   baseURL: string = 'https://platform.higgsfield.ai';
+  rateLimit?: RateLimitConfig;
+  adapter?: AxiosAdapter;
+  cassette?: Cassette | CassetteOptions;
 
   constructor(config?: Partial<ClientConfig>) {
     if (config) {
@@ -46,5 +75,11 @@ export class Config implements ClientConfig {
     if (this.maxPollTime <= 0) {
       throw new Error('maxPollTime must be positive');
     }
+    if (this.rateLimit && !(this.rateLimit.requestsPerSecond > 0)) {
+      throw new Error('rateLimit.requestsPerSecond must be positive');
+    }
+    if (this.rateLimit?.burst !== undefined && this.rateLimit.burst < 1) {
+      throw new Error('rateLimit.burst must be at least 1');
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,164 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { downloadResult, resultUrls, streamResult } from './download';
+import { DownloadError } from './errors';
+import { V2Response } from './v2/types';
+
+const PNG = Buffer.from('\x89PNG\r\n\x1a\nimage-bytes', 'latin1');
+const MP4 = Buffer.from('video-bytes');
+
+describe('Download', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let dir: string;
+  let requests: string[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(req.url || '');
+      const flaky = req.url === '/flaky' && requests.filter((url) => url === '/flaky').length === 1;
+
+      if (flaky) {
+        res.writeHead(503).end();
+      } else if (req.url === '/missing') {
+        res.writeHead(404).end();
+      } else if (req.url === '/gzip') {
+        const body = zlib.gzipSync(MP4);
+        res
+          .writeHead(200, {
+            'Content-Type': 'video/mp4',
+            'Content-Encoding': 'gzip',
+            'Content-Length': body.length,
+          })
+          .end(body);
+      } else if (req.url === '/video') {
+        res.writeHead(200, { 'Content-Type': 'video/mp4', 'Content-Length': MP4.length }).end(MP4);
+      } else {
+        res.writeHead(200, { 'Content-Type': 'image/png', 'Content-Length': PNG.length }).end(PNG);
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    requests = [];
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'higgsfield-download-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  const sha256 = (data: Buffer) => createHash('sha256').update(data).digest('hex');
+
+  it('should collect URLs from v2 responses, job sets and results', () => {
+    const response = {
+      status: 'completed',
+      request_id: 'req-1',
+      status_url: '',
+      cancel_url: '',
+      images: [{ url: 'https://cdn/a.png' }],
+      video: { url: 'https://cdn/b.mp4' },
+    } as V2Response;
+
+    expect(resultUrls(response)).toEqual(['https://cdn/a.png', 'https://cdn/b.mp4']);
+    expect(
+      resultUrls({
+        id: 'set-1',
+        jobs: [
+          {
+            id: 'job-1',
+            status: 'completed',
+            results: {
+              raw: { url: 'https://cdn/c.png', type: 'image' },
+              min: { url: 'https://cdn/c-min.png', type: 'image' },
+            },
+          },
+          { id: 'job-2', status: 'failed', results: null },
+        ],
+      })
+    ).toEqual(['https://cdn/c.png']);
+    expect(resultUrls({ url: 'https://cdn/d.png', type: 'image' })).toEqual(['https://cdn/d.png']);
+  });
+
+  it('should write every output with extensions from Content-Type, sizes and hashes', async () => {
+    const response = {
+      status: 'completed',
+      request_id: 'req-1',
+      status_url: '',
+      cancel_url: '',
+      images: [{ url: `${baseUrl}/image` }, { url: `${baseUrl}/image` }],
+      video: { url: `${baseUrl}/video` },
+    } as V2Response;
+    const files = await downloadResult(response, dir);
+
+    expect(files.map((file) => path.basename(file.path))).toEqual([
+      'image.png',
+      'image-2.png',
+      'video.mp4',
+    ]);
+    expect(files[0]).toMatchObject({
+      size: PNG.length,
+      sha256: sha256(PNG),
+      contentType: 'image/png',
+    });
+    expect(files[2]).toMatchObject({ size: MP4.length, sha256: sha256(MP4) });
+    expect(await fs.promises.readFile(files[2].path)).toEqual(MP4);
+    expect((await fs.promises.readdir(dir)).sort()).toEqual([
+      'image-2.png',
+      'image.png',
+      'video.mp4',
+    ]);
+  });
+
+  it('should retry server errors but not missing files', async () => {
+    const [file] = await downloadResult(`${baseUrl}/flaky`, dir, {
+      retryBackoff: 1,
+      retryMaxBackoff: 1,
+    });
+    expect(file.sha256).toBe(sha256(PNG));
+    expect(requests).toEqual(['/flaky', '/flaky']);
+
+    requests = [];
+    await expect(downloadResult(`${baseUrl}/missing`, dir)).rejects.toThrow();
+    expect(requests).toEqual(['/missing']);
+    expect(await fs.promises.readdir(dir)).toEqual(['flaky.png']);
+  });
+
+  it('should decode compressed responses without failing the length check', async () => {
+    const [file] = await downloadResult(`${baseUrl}/gzip`, dir, { maxRetries: 0 });
+    expect(file).toMatchObject({ size: MP4.length, sha256: sha256(MP4) });
+    expect(await fs.promises.readFile(file.path)).toEqual(MP4);
+  });
+
+  it('should reject results without outputs', async () => {
+    const response = {
+      status: 'failed',
+      request_id: 'req-1',
+      status_url: '',
+      cancel_url: '',
+    } as V2Response;
+    await expect(downloadResult(response, dir)).rejects.toThrow(DownloadError);
+  });
+
+  it('should stream outputs one at a time', async () => {
+    const chunks: Buffer[] = [];
+    for await (const { stream, contentType } of streamResult(`${baseUrl}/video`)) {
+      expect(contentType).toBe('video/mp4');
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+    }
+    expect(Buffer.concat(chunks)).toEqual(MP4);
+  });
+});
@@ -0,0 +1,249 @@
+import axios from 'axios';
+import { createHash, randomBytes } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { pipeline, Readable, Transform } from 'stream';
+import { promisify } from 'util';
+import zlib from 'zlib';
+import { Config, RetryOptions } from './config';
+import { AbortError, DownloadError } from './errors';
+import { JobSetData, Result } from './types';
+import { throwIfAborted } from './utils/abort';
+import { extensionFromContentType } from './utils/content-type';
+import { resolveRetryConfig, retryWithBackoff } from './utils/retry';
+import { V2Response } from './v2/types';
+
+const pipelineAsync = promisify(pipeline);
+
+/**
+ * Anything that carries result URLs: a v2 response, a v1 JobSet, a single Result or a URL
+ */
+export type DownloadableResult = V2Response | JobSetData | Result | string;
+
+export interface DownloadOptions extends RetryOptions {
+  signal?: AbortSignal;
+  timeout?: number; // ms, per attempt
+}
+
+export interface DownloadedFile {
+  url: string;
+  path: string;
+  size: number; // bytes
+  sha256: string; // hex digest
+  contentType?: string;
+}
+
+export interface ResultStream {
+  url: string;
+  stream: Readable;
+  contentType?: string;
+  contentLength?: number; // Only for unencoded responses, where it counts the bytes of the stream
+}
+
+/**
+ * Collects the output URLs of a result, in order
+ * @example
+ * resultUrls(response); // ['https://.../image-1.png', 'https://.../image-2.png']
+ */
+export function resultUrls(result: DownloadableResult): string[] {
+  if (typeof result === 'string') {
+    return [result];
+  }
+  if ('jobs' in result) {
+    return result.jobs.map((job) => job.results?.raw?.url).filter((url): url is string => !!url);
+  }
+  if ('request_id' in result) {
+    const v2 = result as V2Response;
+    return [...(v2.images || []).map((image) => image.url), ...(v2.video ? [v2.video.url] : [])];
+  }
+  return result.url ? [result.url] : [];
+}
+
+/**
+ * Opens a download stream for a result URL, retrying failed connections with backoff
+ * @throws AbortError if the signal is aborted
+ */
+export async function openResultStream(
+  url: string,
+  options: DownloadOptions = {}
+): Promise<ResultStream> {
+  return retryWithBackoff(
+    () => requestStream(url, options),
+    resolveRetryConfig(new Config(), options, options.signal)
+  );
+}
+
+/**
+ * Opens a stream for each output of a result, one at a time
+ * @example
+ * for await (const { url, stream } of streamResult(response)) {
+ *   await uploadToBucket(url, stream);
+ * }
+ */
+export async function* streamResult(
+  result: DownloadableResult,
+  options: DownloadOptions = {}
+): AsyncGenerator<ResultStream> {
+  for (const url of requireUrls(result)) {
+    yield await openResultStream(url, options);
+  }
+}
+
+/**
+ * Downloads every output of a result into a directory.
+ * Each file is retried with backoff, named with an extension inferred from Content-Type,
+ * written to a temporary file and renamed into place once complete.
+ * @returns Local paths with their byte sizes and SHA-256 hashes
+ * @example
+ * const response = await higgsfield.subscribe('nano-banana-pro', { input });
+ * const files = await downloadResult(response, './outputs');
+ */
+export async function downloadResult(
+  result: DownloadableResult,
+  dir: string,
+  options: DownloadOptions = {}
+): Promise<DownloadedFile[]> {
+  const urls = requireUrls(result);
+  await fs.promises.mkdir(dir, { recursive: true });
+
+  const usedNames = new Set<string>();
+  const files: DownloadedFile[] = [];
+  for (const url of urls) {
+    files.push(await downloadFile(url, dir, usedNames, options));
+  }
+  return files;
+}
+
+/**
+ * Downloads a single URL into a directory
+ */
+export async function downloadUrl(
+  url: string,
+  dir: string,
+  options: DownloadOptions = {}
+): Promise<DownloadedFile> {
+  await fs.promises.mkdir(dir, { recursive: true });
+  return downloadFile(url, dir, new Set<string>(), options);
+}
+
+function requireUrls(result: DownloadableResult): string[] {
+  const urls = resultUrls(result);
+  if (urls.length === 0) {
+    throw new DownloadError('Result has no output URLs to download');
+  }
+  return urls;
+}
+
+async function requestStream(url: string, options: DownloadOptions): Promise<ResultStream> {
+  throwIfAborted(options.signal);
+
+  try {
+    // Decoded here rather than by axios, which drops Content-Encoding but keeps the
+    // Content-Length of the encoded body
+    const response = await axios.get<Readable>(url, {
+      responseType: 'stream',
+      timeout: options.timeout ?? new Config().timeout,
+      signal: options.signal,
+      decompress: false,
+    });
+
+    const encoding = String(response.headers['content-encoding'] || 'identity').toLowerCase();
+    const decoder = createDecoder(encoding);
+    const contentLength = Number(response.headers['content-length']);
+    return {
+      url,
+      stream: decoder ? pipeline(response.data, decoder, () => undefined) : response.data,
+      contentType: response.headers['content-type'] as string | undefined,
+      contentLength:
+        encoding === 'identity' && Number.isFinite(contentLength) ? contentLength : undefined,
+    };
+  } catch (error) {
+    if (axios.isCancel(error)) {
+      throw new AbortError();
+    }
+    throw error;
+  }
+}
+
+function createDecoder(encoding: string): Transform | undefined {
+  switch (encoding) {
+    case 'gzip':
+    case 'x-gzip':
+    case 'deflate':
+      return zlib.createUnzip();
+    case 'br':
+      return zlib.createBrotliDecompress();
+    default:
+      return undefined;
+  }
+}
+
+async function downloadFile(
+  url: string,
+  dir: string,
+  usedNames: Set<string>,
+  options: DownloadOptions
+): Promise<DownloadedFile> {
+  return retryWithBackoff(
+    async () => {
+      const { stream, contentType, contentLength } = await requestStream(url, options);
+      const fileName = uniqueFileName(url, contentType, usedNames);
+      const finalPath = path.join(dir, fileName);
+      const tempPath = path.join(dir, `.${fileName}.${randomBytes(6).toString('hex')}.tmp`);
+
+      const hash = createHash('sha256');
+      let size = 0;
+      const meter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          hash.update(chunk);
+          size += chunk.length;
+          callback(null, chunk);
+        },
+      });
+
+      try {
+        await pipelineAsync(stream, meter, fs.createWriteStream(tempPath));
+
+        if (contentLength !== undefined && size !== contentLength) {
+          throw new DownloadError(
+            `Incomplete download of ${url}: received ${size} of ${contentLength} bytes`,
+            url
+          );
+        }
+
+        await fs.promises.rename(tempPath, finalPath);
+      } catch (error) {
+        usedNames.delete(fileName);
+        await fs.promises.rm(tempPath, { force: true });
+        throw error;
+      }
+
+      return { url, path: finalPath, size, sha256: hash.digest('hex'), contentType };
+    },
+    resolveRetryConfig(new Config(), options, options.signal)
+  );
+}
+
+function uniqueFileName(
+  url: string,
+  contentType: string | undefined,
+  usedNames: Set<string>
+): string {
+  let pathname = '';
+  try {
+    pathname = decodeURIComponent(new URL(url).pathname);
+  } catch (error) {
+    pathname = url;
+  }
+
+  const urlExtension = path.extname(pathname);
+  const stem = path.basename(pathname, urlExtension).replace(/[^A-Za-z0-9._-]/g, '_') || 'output';
+  const extension = extensionFromContentType(contentType) || urlExtension.toLowerCase();
+
+  let name = `${stem}${extension}`;
+  for (let i = 2; usedNames.has(name); i++) {
+    name = `${stem}-${i}${extension}`;
+  }
+  usedNames.add(name);
+  return name;
+}
@@ -1,4 +1,6 @@
 export class HiggsfieldError extends Error {
+  idempotencyKey?: string; // Key of the submission that failed, if any
+
   constructor(message: string) {
     super(message);
     this.name = 'HiggsfieldError';
@@ -6,6 +8,11 @@ export class HiggsfieldError extends Error {
 }
 
 export class AuthenticationError extends HiggsfieldError {
+  statusCode: number = 401
+  responseData?: any;
+  requestId?: string;
+  endpoint?: string;
+
   constructor(message: string = 'Authentication failed') {
     super(message);
     this.name = 'AuthenticationError';
@@ -21,7 +28,9 @@ export class CredentialsMissedError extends HiggsfieldError {
 
 export class APIError extends HiggsfieldError {
   statusCode?: number;
-  responseData?: any;
+  responseData?: any; // Raw response body
+  requestId?: string; // Higgsfield request id, when the API returned one
+  endpoint?: string; // Path of the failed request
 
   constructor(message: string, statusCode?: number, responseData?: any) {
     super(message);
@@ -38,18 +47,90 @@ export class TimeoutError extends HiggsfieldError {
   }
 }
 
+export class AbortError extends HiggsfieldError {
+  constructor(message: string = 'Operation was aborted') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+export class NotFoundError extends APIError {
+  statusCode: number = 404
+
+  constructor(message: string = 'Resource not found') {
+    super(message, 404);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class PermissionDeniedError extends APIError {
+  statusCode: number = 403
+
+  constructor(message: string = 'Permission denied') {
+    super(message, 403);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+export class ConflictError extends APIError {
+  statusCode: number = 409
+
+  constructor(message: string = 'Request conflicts with the current state') {
+    super(message, 409);
+    this.name = 'ConflictError';
+  }
+}
+
+export class ServerError extends APIError {
+  constructor(message: string, statusCode: number) {
+    super(message, statusCode);
+    this.name = 'ServerError';
+  }
+}
+
+export class NetworkError extends HiggsfieldError {
+  code?: string; // e.g. ECONNREFUSED, ETIMEDOUT
+  requestId?: string;
+  endpoint?: string;
+  cause?: unknown;
+
+  constructor(message: string, code?: string, cause?: unknown) {
+    super(message);
+    this.name = 'NetworkError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
 export class NotEnoughCreditsError extends APIError {
   statusCode: number = 403
 
-  constructor() {
-    super('Not enough credits');
+  constructor(message: string = 'Not enough credits') {
+    super(message);
     this.name = 'AccountError';
   }
 }
 
-interface ValidationErrorDetail {
+export class RateLimitError extends APIError {
+  statusCode: number = 429
+  retryAfter?: number; // ms, from the Retry-After header
+
+  constructor(retryAfter?: number, responseData?: any) {
+    super(
+      retryAfter !== undefined
+        ? `Rate limit exceeded, retry after ${Math.ceil(retryAfter / 1000)}s`
+        : 'Rate limit exceeded',
+      429,
+      responseData
+    );
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+export interface ValidationErrorDetail {
   type: string;
-  loc: string[];
+  loc: Array<string | number>;
   msg: string;
   input?: any;
   ctx?: Record<string, any>;
@@ -101,6 +182,86 @@ export class BadInputError extends APIError {
   }
 }
 
+export interface GenerationErrorContext {
+  requestId?: string;
+  endpoint?: string;
+  input?: any; // Input the generation was submitted with
+  reason?: string; // Failure reason returned by the server, if any
+  status?: string; // Final status, e.g. failed or canceled
+  response?: any; // Final V2Response or JobSet
+}
+
+/**
+ * A generation finished with status failed or canceled (thrown with `throwOnFailure`)
+ */
+export class GenerationFailedError extends HiggsfieldError {
+  requestId?: string;
+  endpoint?: string;
+  input?: any;
+  reason?: string;
+  status?: string;
+  response?: any;
+
+  constructor(context: GenerationErrorContext = {}) {
+    super(generationErrorMessage(`Generation ${context.status || 'failed'}`, context));
+    this.name = 'GenerationFailedError';
+    Object.assign(this, context);
+  }
+}
+
+/**
+ * A generation was flagged as NSFW (thrown with `throwOnFailure`)
+ */
+export class NsfwContentError extends HiggsfieldError {
+  requestId?: string;
+  endpoint?: string;
+  input?: any;
+  reason?: string;
+  status?: string;
+  response?: any;
+
+  constructor(context: GenerationErrorContext = {}) {
+    super(generationErrorMessage('Generation flagged as NSFW', context));
+    this.name = 'NsfwContentError';
+    Object.assign(this, { status: 'nsfw', ...context });
+  }
+}
+
+function generationErrorMessage(summary: string, context: GenerationErrorContext): string {
+  const id = context.requestId ? ` (request ${context.requestId})` : '';
+  return context.reason ? `${summary}${id}: ${context.reason}` : `${summary}${id}`;
+}
+
+export class WebhookVerificationError extends HiggsfieldError {
+  constructor(message: string = 'Webhook secret verification failed') {
+    super(message);
+    this.name = 'WebhookVerificationError';
+  }
+}
+
+export class DownloadError extends HiggsfieldError {
+  url?: string;
+
+  constructor(message: string, url?: string) {
+    super(message);
+    this.name = 'DownloadError';
+    this.url = url;
+  }
+}
+
+/**
+ * A replayed request has no matching recording in the cassette
+ */
+export class CassetteMismatchError extends HiggsfieldError {
+  request?: { method: string; url: string; body?: any };
+
+  constructor(message: string, request?: { method: string; url: string; body?: any }) {
+    super(message);
+    this.name = 'CassetteMismatchError';
+    this.request = request;
+  }
+}
+
 export class BrowserNotSupportedError extends HiggsfieldError {
   constructor() {
     super('This SDK is not supported in browser environments. Please use it in a Node.js environment.');
@@ -1,7 +1,24 @@
 export { HiggsfieldClient } from './client';
-export { ClientConfig } from './config';
+export { ClientConfig, RateLimitConfig, RetryOptions } from './config';
+export {
+  isRetryableError,
+  RetryContext,
+  RetryPredicate,
+  RetryStrategy,
+} from './utils/retry';
+export { UploadOptions, UploadProgress } from './utils/upload';
+export {
+  Cassette,
+  CassetteInteraction,
+  CassetteMode,
+  CassetteOptions,
+  CassetteRequest,
+  CassetteResponse,
+} from './utils/cassette';
 export * from './types';
 export * from './errors';
 export * from './helpers';
+export * from './webhooks';
+export * from './download';
 export { JobSet } from './models/JobSet';
 export { SoulId } from './models/SoulId';
@@ -0,0 +1,65 @@
+import axios from 'axios';
+import { Config } from '../config';
+import { JobSet } from './JobSet';
+
+function statusClient(data: Record<string, any>) {
+  return axios.create({
+    adapter: async (config) => ({ data, status: 200, statusText: '200', headers: {}, config }),
+  });
+}
+
+describe('JobSet', () => {
+  const config = new Config({ pollInterval: 1 });
+
+  it('should keep every output of a multi-image v2 request', async () => {
+    const client = statusClient({
+      status: 'completed',
+      request_id: 'req-1',
+      images: [1, 2, 3, 4].map((n) => ({ url: `https://cdn/${n}.png`, width: 1536, height: 1536 })),
+    });
+    const jobSet = new JobSet({ id: 'req-1', jobs: [] });
+
+    await jobSet.pollV2(client, config);
+
+    expect(jobSet.jobs.map((job) => job.id)).toEqual(['req-1', 'req-1-1', 'req-1-2', 'req-1-3']);
+    expect(jobSet.isCompleted).toBe(true);
+    expect(jobSet.results.map((result) => result.url)).toEqual([
+      'https://cdn/1.png',
+      'https://cdn/2.png',
+      'https://cdn/3.png',
+      'https://cdn/4.png',
+    ]);
+    expect(jobSet.jobs[3].results).toEqual({
+      raw: { url: 'https://cdn/4.png', type: 'image', width: 1536, height: 1536 },
+      min: { url: 'https://cdn/4.png', type: 'image', width: 1536, height: 1536 },
+    });
+  });
+
+  it('should record videos and failure details', async () => {
+    const video = new JobSet({ id: 'req-2', jobs: [] });
+    await video.pollV2(
+      statusClient({
+        status: 'completed',
+        request_id: 'req-2',
+        video: { url: 'https://cdn/v.mp4' },
+      }),
+      config
+    );
+    expect(video.results).toEqual([{ url: 'https://cdn/v.mp4', type: 'video' }]);
+
+    const failed = new JobSet({ id: 'req-3', jobs: [] });
+    await failed.pollV2(
+      statusClient({ status: 'failed', request_id: 'req-3', error: 'Face not detected' }),
+      config
+    );
+    expect(failed.jobs).toEqual([
+      {
+        id: 'req-3',
+        status: 'failed',
+        results: null,
+        error: 'Face not detected',
+        reason: undefined,
+      },
+    ]);
+  });
+});
@@ -1,11 +1,15 @@
-import axios, { AxiosInstance } from 'axios';
+import { AxiosInstance } from 'axios';
 import { Config } from '../config';
 import { TimeoutError } from '../errors';
-import { JobStatus, Job, JobSetData, Results } from '../types';
+import { sleep, throwIfAborted } from '../utils/abort';
+import { pollRetryDelay } from '../utils/retry';
+import { JobStatus, Job, JobSetData, PollOptions, Result } from '../types';
+import { V2Response } from '../v2/types';
 
 export class JobSet {
   id: string;
   jobs: Job[];
+  idempotencyKey?: string; // Key the job set was submitted with
 
   constructor(data: JobSetData) {
     this.id = data.id;
@@ -36,6 +40,15 @@ export class JobSet {
     return this.checkStatus(JobStatus.CANCELED);
   }
 
+  /**
+   * Full-size results of all jobs, one per output
+   */
+  get results(): Result[] {
+    return this.jobs
+      .map(job => job.results?.raw)
+      .filter((result): result is Result => !!result);
+  }
+
   get pollingUrl(): string {
     return `/v1/job-sets/${this.id}`;
   }
@@ -44,10 +57,12 @@ export class JobSet {
     return this.jobs.some(job => job.status === status);
   }
 
-  async poll(client: AxiosInstance, config: Config): Promise<void> {
+  async poll(client: AxiosInstance, config: Config, options?: PollOptions): Promise<void> {
     const startTime = Date.now();
 
     while (true) {
+      throwIfAborted(options?.signal);
+
       if (Date.now() - startTime > config.maxPollTime) {
         throw new TimeoutError(
           `Polling exceeded maximum time of ${config.maxPollTime}ms`
@@ -55,21 +70,18 @@ export class JobSet {
       }
 
       try {
-        const response = await client.get(this.pollingUrl);
+        const response = await client.get(this.pollingUrl, { signal: options?.signal });
         this.jobs = response.data.jobs;
 
         if (this.isCompleted || this.isNsfw || this.isFailed || this.isCanceled) {
           break;
         }
       } catch (error) {
-        if (axios.isAxiosError(error) && error.response?.status && error.response.status >= 500) {
-          // Server error, continue polling
-        } else {
-          throw error;
-        }
+        await sleep(pollRetryDelay(error, config.pollInterval), options?.signal);
+        continue;
       }
 
-      await new Promise(resolve => setTimeout(resolve, config.pollInterval));
+      await sleep(config.pollInterval, options?.signal);
     }
   }
 
@@ -77,11 +89,13 @@ export class JobSet {
    * Poll v2 API endpoint for request status
    * Uses /requests/{request_id}/status endpoint
    */
-  async pollV2(client: AxiosInstance, config: Config): Promise<void> {
+  async pollV2(client: AxiosInstance, config: Config, options?: PollOptions): Promise<void> {
     const startTime = Date.now();
     const pollingUrl = `/requests/${this.id}/status`;
 
     while (true) {
+      throwIfAborted(options?.signal);
+
       if (Date.now() - startTime > config.maxPollTime) {
         throw new TimeoutError(
           `Polling exceeded maximum time of ${config.maxPollTime}ms`
@@ -89,70 +103,61 @@ export class JobSet {
       }
 
       try {
-        const response = await client.get(pollingUrl);
+        const response = await client.get(pollingUrl, { signal: options?.signal });
         
-        const v2Response = response.data;
+        const v2Response: V2Response = response.data;
         const status = v2Response.status || 'queued';
-        
-        // Map v2 response to JobSet format
-        // v2 returns: { status, request_id, images: [{url}], video: {url} }
-        // JobSet expects: { id, jobs: [{ id, status, results }] }
-        
-        // Convert images/video to results format
-        let results: Results | null = null;
-        if (v2Response.images && v2Response.images.length > 0) {
-          // Use first image as raw result, and also as min (thumbnail)
-          const imageUrl = v2Response.images[0].url;
-          results = {
-            raw: {
-              url: imageUrl,
-              type: 'image'
-            },
-            min: {
-              url: imageUrl,
-              type: 'image'
-            }
-          };
-        } else if (v2Response.video && v2Response.video.url) {
-          const videoUrl = v2Response.video.url;
-          results = {
-            raw: {
-              url: videoUrl,
-              type: 'video'
-            },
-            min: {
-              url: videoUrl,
-              type: 'video'
-            }
-          };
-        }
 
-        // Update the first job (v2 typically has one job per request)
-        if (this.jobs.length > 0) {
-          this.jobs[0].status = status;
-          this.jobs[0].results = results;
-        } else {
-          // Create a job if none exists
-          this.jobs = [{
-            id: v2Response.request_id || this.id,
-            status: status,
-            results: results
-          }];
-        }
+        // Map v2 response to JobSet format - one job per output, so every image
+        // of a multi-image request is kept. The first job keeps its id.
+        const outputs = v2OutputResults(v2Response);
+        const firstId = this.jobs[0]?.id || v2Response.request_id || this.id;
+        const failure =
+          v2Response.status === 'failed' || v2Response.status === 'nsfw'
+            ? { error: v2Response.error, reason: v2Response.reason }
+            : {};
+
+        this.jobs = (outputs.length > 0 ? outputs : [null]).map((result, index) => ({
+          id: index === 0 ? firstId : `${firstId}-${index}`,
+          status,
+          // v2 has no separate thumbnail, so min points at the full output
+          results: result && { raw: result, min: result },
+          ...failure
+        }));
 
         // Check if polling should stop
-        if (status === 'completed' || status === 'nsfw' || status === 'failed') {
+        if (status === 'completed' || status === 'nsfw' || status === 'failed' || status === 'canceled') {
           break;
         }
       } catch (error) {
-        if (axios.isAxiosError(error) && error.response?.status && error.response.status >= 500) {
-          // Server error, continue polling
-        } else {
-          throw error;
-        }
+        await sleep(pollRetryDelay(error, config.pollInterval), options?.signal);
+        continue;
       }
 
-      await new Promise(resolve => setTimeout(resolve, config.pollInterval));
+      await sleep(config.pollInterval, options?.signal);
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Results for every image and video of a v2 response, in order
+ */
+function v2OutputResults(v2Response: V2Response): Result[] {
+  const results: Result[] = (v2Response.images || []).map(image => ({
+    url: image.url,
+    type: 'image',
+    width: image.width,
+    height: image.height
+  }));
+
+  if (v2Response.video?.url) {
+    results.push({
+      url: v2Response.video.url,
+      type: 'video',
+      width: v2Response.video.width,
+      height: v2Response.video.height
+    });
+  }
+
+  return results;
+}
@@ -1,7 +1,9 @@
-import axios, { AxiosInstance } from 'axios';
+import { AxiosInstance } from 'axios';
 import { Config } from '../config';
 import { TimeoutError } from '../errors';
-import { SoulIdData, SoulIdStatus } from '../types';
+import { sleep, throwIfAborted } from '../utils/abort';
+import { pollRetryDelay } from '../utils/retry';
+import { PollOptions, SoulIdData, SoulIdStatus } from '../types';
 
 export class SoulId {
   id: string;
@@ -26,10 +28,12 @@ export class SoulId {
     return this.status == SoulIdStatus.FAILED;
   }
 
-  async poll(client: AxiosInstance, config: Config): Promise<void> {
+  async poll(client: AxiosInstance, config: Config, options?: PollOptions): Promise<void> {
     const startTime = Date.now();
 
     while (true) {
+      throwIfAborted(options?.signal);
+
       if (Date.now() - startTime > config.maxPollTime) {
         throw new TimeoutError(
           `Polling exceeded maximum time of ${config.maxPollTime}ms`
@@ -37,21 +41,18 @@ export class SoulId {
       }
 
       try {
-        const response = await client.get(this.pollingUrl);
+        const response = await client.get(this.pollingUrl, { signal: options?.signal });
         this.status = response.data.status;
 
         if (this.isCompleted || this.isFailed) {
           break;
         }
       } catch (error) {
-        if (axios.isAxiosError(error) && error.response?.status && error.response.status >= 500) {
-          // Server error, continue polling
-        } else {
-          throw error;
-        }
+        await sleep(pollRetryDelay(error, config.pollInterval), options?.signal);
+        continue;
       }
 
-      await new Promise(resolve => setTimeout(resolve, config.pollInterval));
+      await sleep(config.pollInterval, options?.signal);
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,566 @@
+import { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { Job, JobSetData, Motion, SoulIdData, SoulIdStatus, SoulStyle } from '../types';
+import { requestHeaders, settleResponse } from '../utils/adapter';
+import { isReadableStream } from '../utils/upload';
+import { V2Image, V2RequestStatus, V2Response, V2Video } from '../v2/types';
+
+export const FAKE_BASE_URL = 'https://fake.higgsfield.test';
+const FAKE_CDN_URL = 'https://fake-cdn.higgsfield.test';
+
+/**
+ * How a fake endpoint behaves
+ */
+export interface EndpointScript {
+  // Status returned on submission, then by each status poll in turn; the last one sticks
+  // (default: queued, in_progress, completed)
+  statuses?: V2RequestStatus[];
+  images?: number; // Number of images in the final output (default: 1)
+  video?: boolean; // Return a video instead of images
+  output?: (input: any, requestId: string) => { images?: V2Image[]; video?: V2Video };
+  error?: string; // Failure message of failed and nsfw requests
+  reason?: string;
+}
+
+/**
+ * An error response to return instead of handling a request
+ */
+export interface InjectedError {
+  status: number; // e.g. 401, 403, 422, 500
+  body?: any; // Defaults to a body like the API's for that status
+  headers?: Record<string, string>;
+  method?: string; // Only match this HTTP method
+  path?: string | RegExp; // Only match this path, e.g. '/v1/text2image/soul' or '/requests/'
+  times?: number; // Number of requests to fail (default: 1)
+}
+
+// v2 generation, v1 job set or Soul ID training
+export type FakeRequestKind = 'v2' | 'v1' | 'soul-id';
+
+export interface FakeSubmission {
+  requestId: string;
+  kind: FakeRequestKind;
+  endpoint: string; // Without leading slash, e.g. v1/text2image/soul
+  input: any; // v2 input, v1 params or Soul ID create data
+  headers: Record<string, string>;
+  webhookUrl?: string;
+  webhookSecret?: string; // Sent by v1 submissions only
+  submittedAt: number;
+}
+
+export interface FakeRequest {
+  submission: FakeSubmission;
+  statuses: V2RequestStatus[];
+  polls: number;
+  canceled: boolean;
+  script: EndpointScript;
+}
+
+export interface FakeUpload {
+  contentType: string;
+  publicUrl: string;
+  data?: Buffer;
+}
+
+export interface FakeHttpRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: Record<string, string>; // Lower-case names
+  body?: any; // Parsed JSON, or a Buffer for uploads
+}
+
+export interface FakeHttpResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: any; // Sent as JSON, unless it is a Buffer
+}
+
+export interface FakeBackendOptions {
+  baseURL?: string; // Used in status, cancel and upload URLs (default: FAKE_BASE_URL)
+  cdnURL?: string; // Prefix of result and upload URLs
+  // ms each status lasts after submission; when omitted, every status poll advances one status
+  stepDuration?: number;
+  defaultScript?: EndpointScript; // Behavior of endpoints without a script
+}
+
+const DEFAULT_STATUSES: V2RequestStatus[] = ['queued', 'in_progress', 'completed'];
+const TERMINAL_STATUSES: V2RequestStatus[] = ['completed', 'failed', 'nsfw', 'canceled'];
+const SOUL_ID_ENDPOINT = 'v1/custom-references';
+
+const DEFAULT_ERROR_BODIES: Record<number, any> = {
+  400: { detail: 'Bad request' },
+  401: { detail: 'Invalid credentials' },
+  403: { detail: 'Not enough credits' },
+  404: { detail: 'Not found' },
+  422: { detail: [{ type: 'missing', loc: ['body', 'prompt'], msg: 'Field required' }] },
+  429: { detail: 'Too many requests' },
+};
+
+// Smallest files their content type is recognized from
+const PLACEHOLDER_PNG = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex');
+const PLACEHOLDER_MP4 = Buffer.from('0000001866747970697336d000000000', 'hex');
+
+const FAKE_MOTIONS: Motion[] = [
+  {
+    id: 'fake-motion-zoom-in',
+    name: 'Zoom In',
+    description: 'Camera slowly pushes in',
+    start_end_frame: false,
+  },
+  { id: 'fake-motion-orbit', name: 'Orbit', description: 'Camera circles the subject' },
+];
+
+const FAKE_SOUL_STYLES: SoulStyle[] = [
+  {
+    id: 'fake-style-film',
+    name: 'Film',
+    description: 'Grainy analog film look',
+    preview_url: `${FAKE_CDN_URL}/styles/film.png`,
+  },
+];
+
+function normalizeEndpoint(endpoint: string): string {
+  return endpoint.replace(/^\/+/, '').split('?')[0];
+}
+
+function isV1Submission(request: FakeHttpRequest): boolean {
+  // The v1 client authenticates with hf-api-key and wraps input in { params, webhook }
+  const { body } = request;
+  return (
+    'hf-api-key' in request.headers ||
+    (typeof body?.params === 'object' &&
+      Object.keys(body).every((key) => key === 'params' || key === 'webhook'))
+  );
+}
+
+/**
+ * In-memory stand-in for the Higgsfield API.
+ * Scripted per endpoint, it serves v2 submissions, status polls and cancellation,
+ * v1 job sets and Soul IDs, and uploads without network access,
+ * and records everything it receives.
+ */
+export class FakeBackend {
+  baseURL: string;
+  cdnURL: string;
+  readonly submissions: FakeSubmission[] = [];
+  readonly uploads = new Map<string, FakeUpload>();
+
+  private readonly requests = new Map<string, FakeRequest>();
+  private readonly scripts = new Map<string, EndpointScript>();
+  private readonly idempotencyKeys = new Map<string, string>();
+  private readonly stepDuration?: number;
+  private injectedErrors: InjectedError[] = [];
+  private defaultScript: EndpointScript;
+
+  constructor(options: FakeBackendOptions = {}) {
+    this.baseURL = (options.baseURL || FAKE_BASE_URL).replace(/\/+$/, '');
+    this.cdnURL = (options.cdnURL || FAKE_CDN_URL).replace(/\/+$/, '');
+    this.stepDuration = options.stepDuration;
+    this.defaultScript = options.defaultScript || {};
+  }
+
+  /**
+   * Script the behavior of an endpoint, or of all endpoints with '*'.
+   * '/v1/custom-references' scripts the statuses of Soul ID training.
+   * @example
+   * backend.script('/v1/text2image/soul', { statuses: ['queued', 'nsfw'] });
+   */
+  script(endpoint: string, script: EndpointScript): this {
+    if (endpoint === '*') {
+      this.defaultScript = script;
+    } else {
+      this.scripts.set(normalizeEndpoint(endpoint), script);
+    }
+    return this;
+  }
+
+  /**
+   * Answer the next matching request(s) with an error response
+   * @example
+   * backend.injectError({ status: 503, path: '/requests/', times: 2 });
+   */
+  injectError(error: InjectedError): this {
+    this.injectedErrors.push({ times: 1, ...error });
+    return this;
+  }
+
+  /**
+   * Submissions to an endpoint, oldest first
+   */
+  submissionsTo(endpoint: string): FakeSubmission[] {
+    const normalized = normalizeEndpoint(endpoint);
+    return this.submissions.filter((submission) => submission.endpoint === normalized);
+  }
+
+  /**
+   * The current response of a request, as its v2 status endpoint would return it
+   */
+  getRequest(requestId: string): V2Response | undefined {
+    const request = this.requests.get(requestId);
+    return request && this.responseFor(request);
+  }
+
+  /**
+   * What the request's own status route returns: a v2 response, a v1 job set or a Soul ID
+   */
+  getPayload(requestId: string): V2Response | JobSetData | SoulIdData | undefined {
+    const request = this.requests.get(requestId);
+    if (!request) {
+      return undefined;
+    }
+    switch (request.submission.kind) {
+      case 'v1':
+        return this.jobSetFor(request);
+      case 'soul-id':
+        return this.soulIdFor(request);
+      default:
+        return this.responseFor(request);
+    }
+  }
+
+  /**
+   * Whether a request reached a final status
+   */
+  isSettled(requestId: string): boolean {
+    const request = this.requests.get(requestId);
+    return !!request && TERMINAL_STATUSES.includes(this.statusOf(request));
+  }
+
+  /**
+   * Forget all requests, uploads, scripts and injected errors
+   */
+  reset(): void {
+    this.submissions.length = 0;
+    this.uploads.clear();
+    this.requests.clear();
+    this.scripts.clear();
+    this.idempotencyKeys.clear();
+    this.injectedErrors = [];
+    this.defaultScript = {};
+  }
+
+  /**
+   * Handle one HTTP request
+   */
+  async handle(request: FakeHttpRequest): Promise<FakeHttpResponse> {
+    const injected = this.takeInjectedError(request);
+    if (injected) {
+      return {
+        status: injected.status,
+        headers: injected.headers,
+        body: injected.body ?? DEFAULT_ERROR_BODIES[injected.status] ?? { detail: 'Server error' },
+      };
+    }
+
+    const { method, path } = request;
+    const statusMatch = path.match(/^\/requests\/([^/]+)\/status$/);
+    const cancelMatch = path.match(/^\/requests\/([^/]+)\/cancel$/);
+    const uploadMatch = path.match(/^\/__uploads\/([^/]+)$/);
+    const cdnMatch = path.match(/^\/__cdn\/(uploads|results)\/(.+)$/);
+    const jobSetMatch = path.match(/^\/v1\/job-sets\/([^/]+)$/);
+    const soulIdMatch = path.match(/^\/v1\/custom-references\/([^/]+)$/);
+
+    if (method === 'GET' && statusMatch) {
+      return this.pollRequest(statusMatch[1], 'v2');
+    }
+    if (method === 'POST' && cancelMatch) {
+      return this.cancelRequest(cancelMatch[1]);
+    }
+    if (method === 'POST' && path === '/files/generate-upload-url') {
+      return this.createUpload(request.body?.content_type);
+    }
+    if (method === 'PUT' && uploadMatch) {
+      return this.receiveUpload(uploadMatch[1], request.body);
+    }
+    if (method === 'GET' && cdnMatch) {
+      return this.serveFile(cdnMatch[1], cdnMatch[2]);
+    }
+    if (method === 'GET' && jobSetMatch) {
+      return this.pollRequest(jobSetMatch[1], 'v1');
+    }
+    if (method === 'GET' && path === '/v1/custom-references/list') {
+      return this.listSoulIds(request.query);
+    }
+    if (method === 'GET' && soulIdMatch) {
+      return this.pollRequest(soulIdMatch[1], 'soul-id');
+    }
+    if (method === 'GET' && path === '/v1/motions') {
+      return { status: 200, body: FAKE_MOTIONS };
+    }
+    if (method === 'GET' && path === '/v1/text2image/soul-styles') {
+      return { status: 200, body: FAKE_SOUL_STYLES };
+    }
+    if (method === 'POST' && path === `/${SOUL_ID_ENDPOINT}`) {
+      return this.submit(request, 'soul-id');
+    }
+    if (method === 'POST') {
+      return this.submit(request, isV1Submission(request) ? 'v1' : 'v2');
+    }
+    return { status: 404, body: { detail: `No fake route for ${method} ${path}` } };
+  }
+
+  /**
+   * Axios adapter that sends requests to this backend instead of the network
+   */
+  get adapter(): AxiosAdapter {
+    return (config) => this.handleAxiosRequest(config);
+  }
+
+  private takeInjectedError(request: FakeHttpRequest): InjectedError | undefined {
+    const index = this.injectedErrors.findIndex(
+      (error) =>
+        (!error.method || error.method.toUpperCase() === request.method) &&
+        (!error.path ||
+          (typeof error.path === 'string'
+            ? request.path.startsWith(error.path)
+            : error.path.test(request.path)))
+    );
+    if (index === -1) {
+      return undefined;
+    }
+
+    const error = this.injectedErrors[index];
+    error.times = (error.times ?? 1) - 1;
+    if (error.times <= 0) {
+      this.injectedErrors.splice(index, 1);
+    }
+    return error;
+  }
+
+  private submit(request: FakeHttpRequest, kind: FakeRequestKind): FakeHttpResponse {
+    // Retries of one submission carry the same key and must not create a second request
+    const idempotencyKey = request.headers['idempotency-key'];
+    const existingId = idempotencyKey && this.idempotencyKeys.get(idempotencyKey);
+    if (existingId) {
+      return { status: 200, body: this.getPayload(existingId) };
+    }
+
+    const endpoint = normalizeEndpoint(request.path);
+    const script = this.scripts.get(endpoint) || this.defaultScript;
+    const submission: FakeSubmission = {
+      requestId: randomUUID(),
+      kind,
+      endpoint,
+      input: kind === 'v1' ? request.body?.params : request.body,
+      headers: request.headers,
+      webhookUrl:
+        kind === 'v1' ? request.body?.webhook?.url : request.query.get('hf_webhook') || undefined,
+      webhookSecret: kind === 'v1' ? request.body?.webhook?.secret : undefined,
+      submittedAt: Date.now(),
+    };
+    const fakeRequest: FakeRequest = {
+      submission,
+      statuses: script.statuses?.length ? script.statuses : DEFAULT_STATUSES,
+      polls: 0,
+      canceled: false,
+      script,
+    };
+
+    this.submissions.push(submission);
+    this.requests.set(submission.requestId, fakeRequest);
+    if (idempotencyKey) {
+      this.idempotencyKeys.set(idempotencyKey, submission.requestId);
+    }
+
+    return { status: 200, body: this.getPayload(submission.requestId) };
+  }
+
+  private pollRequest(requestId: string, kind: FakeRequestKind): FakeHttpResponse {
+    const request = this.requests.get(requestId);
+    if (!request || request.submission.kind !== kind) {
+      return { status: 404, body: { detail: 'Request not found' } };
+    }
+
+    if (!this.stepDuration && !request.canceled && request.polls < request.statuses.length - 1) {
+      request.polls++;
+    }
+    return { status: 200, body: this.getPayload(requestId) };
+  }
+
+  private cancelRequest(requestId: string): FakeHttpResponse {
+    const request = this.requests.get(requestId);
+    if (!request || request.submission.kind !== 'v2') {
+      return { status: 404, body: { detail: 'Request not found' } };
+    }
+    if (TERMINAL_STATUSES.includes(this.statusOf(request))) {
+      return { status: 400, body: { detail: 'Request can no longer be canceled' } };
+    }
+
+    request.canceled = true;
+    return { status: 202, body: {} };
+  }
+
+  private listSoulIds(query: URLSearchParams): FakeHttpResponse {
+    const page = Math.max(Number(query.get('page')) || 1, 1);
+    const pageSize = Math.max(Number(query.get('page_size')) || 20, 1);
+    const soulIds = Array.from(this.requests.values())
+      .filter((request) => request.submission.kind === 'soul-id')
+      .map((request) => this.soulIdFor(request));
+
+    return {
+      status: 200,
+      body: {
+        total: soulIds.length,
+        page,
+        page_size: pageSize,
+        total_pages: Math.ceil(soulIds.length / pageSize),
+        items: soulIds.slice((page - 1) * pageSize, page * pageSize),
+      },
+    };
+  }
+
+  private createUpload(contentType?: string): FakeHttpResponse {
+    const id = randomUUID();
+    const publicUrl = `${this.cdnURL}/uploads/${id}`;
+    this.uploads.set(id, { contentType: contentType || 'application/octet-stream', publicUrl });
+    return {
+      status: 200,
+      body: { upload_url: `${this.baseURL}/__uploads/${id}`, public_url: publicUrl },
+    };
+  }
+
+  private receiveUpload(id: string, body: unknown): FakeHttpResponse {
+    const upload = this.uploads.get(id);
+    if (!upload) {
+      return { status: 403, body: { detail: 'Upload URL expired' } };
+    }
+    upload.data = Buffer.isBuffer(body) ? body : Buffer.from(String(body ?? ''));
+    return { status: 200 };
+  }
+
+  private serveFile(kind: string, name: string): FakeHttpResponse {
+    if (kind === 'uploads') {
+      const upload = this.uploads.get(name);
+      return upload?.data
+        ? { status: 200, headers: { 'Content-Type': upload.contentType }, body: upload.data }
+        : { status: 404, body: { detail: 'File not found' } };
+    }
+    return name.endsWith('.mp4')
+      ? { status: 200, headers: { 'Content-Type': 'video/mp4' }, body: PLACEHOLDER_MP4 }
+      : { status: 200, headers: { 'Content-Type': 'image/png' }, body: PLACEHOLDER_PNG };
+  }
+
+  private statusOf(request: FakeRequest): V2RequestStatus {
+    if (request.canceled) {
+      return 'canceled';
+    }
+    const step = this.stepDuration
+      ? Math.floor((Date.now() - request.submission.submittedAt) / this.stepDuration)
+      : request.polls;
+    return request.statuses[Math.min(step, request.statuses.length - 1)];
+  }
+
+  private outputFor(request: FakeRequest): { images?: V2Image[]; video?: V2Video } {
+    const { requestId, input } = request.submission;
+    const { script } = request;
+    if (script.output) {
+      return script.output(input, requestId);
+    }
+    if (script.video) {
+      return { video: { url: `${this.cdnURL}/results/${requestId}/video.mp4` } };
+    }
+    return {
+      images: Array.from({ length: script.images ?? 1 }, (_, index) => ({
+        url: `${this.cdnURL}/results/${requestId}/${index}.png`,
+      })),
+    };
+  }
+
+  private failureDetails(request: FakeRequest, status: V2RequestStatus) {
+    const { error, reason } = request.script;
+    return {
+      error: error ?? (status === 'nsfw' ? 'Content flagged as NSFW' : 'Generation failed'),
+      ...(reason ? { reason } : {}),
+    };
+  }
+
+  private responseFor(request: FakeRequest): V2Response {
+    const { requestId } = request.submission;
+    const status = this.statusOf(request);
+
+    const response: Record<string, any> = {
+      status,
+      request_id: requestId,
+      status_url: `${this.baseURL}/requests/${requestId}/status`,
+      cancel_url: `${this.baseURL}/requests/${requestId}/cancel`,
+    };
+
+    if (status === 'completed') {
+      Object.assign(response, this.outputFor(request));
+    } else if (status === 'failed' || status === 'nsfw') {
+      Object.assign(response, this.failureDetails(request, status));
+    }
+
+    return response as V2Response;
+  }
+
+  private jobSetFor(request: FakeRequest): JobSetData {
+    const { requestId } = request.submission;
+    const status = this.statusOf(request);
+    const { images = [], video } = this.outputFor(request);
+    const outputs = [
+      ...images.map((image) => ({ url: image.url, type: 'image' })),
+      ...(video ? [{ url: video.url, type: 'video' }] : []),
+    ];
+
+    const jobs: Job[] = outputs.map((result, index) => ({
+      id: `${requestId}-${index}`,
+      status,
+      results: status === 'completed' ? { raw: result, min: result } : null,
+      ...(status === 'failed' || status === 'nsfw' ? this.failureDetails(request, status) : {}),
+    }));
+    return { id: requestId, jobs };
+  }
+
+  private soulIdFor(request: FakeRequest): SoulIdData {
+    const status = this.statusOf(request);
+    return {
+      id: request.submission.requestId,
+      name: request.submission.input?.name ?? '',
+      // Soul IDs have no nsfw or canceled status
+      status: (TERMINAL_STATUSES.includes(status) && status !== 'completed'
+        ? SoulIdStatus.FAILED
+        : status) as SoulIdStatus,
+    };
+  }
+
+  private async handleAxiosRequest(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+    const url = new URL(config.url || '', config.baseURL || this.baseURL);
+    const response = await this.handle({
+      method: (config.method || 'get').toUpperCase(),
+      path: url.pathname,
+      query: url.searchParams,
+      headers: requestHeaders(config),
+      body: await readBody(config.data),
+    });
+
+    return settleResponse(config, {
+      status: response.status,
+      headers: response.headers,
+      data: response.body,
+    });
+  }
+}
+
+async function readBody(data: unknown): Promise<any> {
+  if (data === undefined || data === null) {
+    return undefined;
+  }
+  if (isReadableStream(data)) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of data as Readable) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+  if (typeof data === 'string') {
+    try {
+      return JSON.parse(data);
+    } catch (error) {
+      return data;
+    }
+  }
+  return data;
+}
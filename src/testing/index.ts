@@ -0,0 +1,21 @@
+export { createMockHiggsfieldClient, MockClientOptions, MockHiggsfieldClient } from './mock-client';
+export {
+  FakeBackend,
+  FakeBackendOptions,
+  FakeHttpRequest,
+  FakeHttpResponse,
+  FakeRequest,
+  FakeRequestKind,
+  FakeSubmission,
+  FakeUpload,
+  EndpointScript,
+  InjectedError,
+  FAKE_BASE_URL,
+} from './fake-backend';
+export {
+  startFakeServer,
+  FakeServer,
+  FakeServerOptions,
+  LatencyRange,
+  WebhookDelivery,
+} from './server';
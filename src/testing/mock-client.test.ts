@@ -0,0 +1,108 @@
+import axios from 'axios';
+import {
+  AuthenticationError,
+  NotEnoughCreditsError,
+  NsfwContentError,
+  RateLimitError,
+  ServerError,
+  ValidationError,
+} from '../errors';
+import { createMockHiggsfieldClient } from './index';
+
+describe('Mock client', () => {
+  const originalAdapter = axios.defaults.adapter;
+
+  beforeEach(() => {
+    // Any request that escapes the fake backend fails the test
+    axios.defaults.adapter = async () => {
+      throw new Error('Unexpected network request');
+    };
+  });
+
+  afterEach(() => {
+    axios.defaults.adapter = originalAdapter;
+  });
+
+  it('should walk the default status sequence and return fake result URLs', async () => {
+    const higgsfield = createMockHiggsfieldClient();
+    const statuses: string[] = [];
+
+    const response = await higgsfield.subscribe('/v1/text2image/soul', {
+      input: { prompt: 'a cat', width_and_height: '1152x2048', quality: '720p', batch_size: 1 },
+      onQueueUpdate: (update) => statuses.push(update.status),
+    });
+
+    expect(statuses).toEqual(['queued', 'in_progress', 'completed']);
+    expect(response.status).toBe('completed');
+    expect(response.images?.[0].url).toMatch(/^https:\/\/fake-cdn\.higgsfield\.test\/results\//);
+
+    const [submission] = higgsfield.backend.submissionsTo('/v1/text2image/soul');
+    expect(submission.input).toMatchObject({ prompt: 'a cat', batch_size: 1 });
+    expect(submission.headers['idempotency-key']).toBe(response.idempotency_key);
+  });
+
+  it('should follow scripted sequences per endpoint', async () => {
+    const higgsfield = createMockHiggsfieldClient({
+      scripts: {
+        '/flagged': { statuses: ['queued', 'nsfw'] },
+        '/video': { statuses: ['in_progress', 'completed'], video: true },
+      },
+    });
+
+    const video = await higgsfield.subscribe('/video', { input: { prompt: 'waves' } });
+    expect(video.video?.url).toMatch(/video\.mp4$/);
+
+    await expect(
+      higgsfield.subscribe('/flagged', { input: { prompt: 'x' }, throwOnFailure: true })
+    ).rejects.toThrow(NsfwContentError);
+  });
+
+  it('should map injected errors like the real API', async () => {
+    const higgsfield = createMockHiggsfieldClient({ maxRetries: 0 });
+    const { backend } = higgsfield;
+
+    backend.injectError({ status: 401 });
+    await expect(higgsfield.subscribe('/model', { input: {} })).rejects.toThrow(
+      AuthenticationError
+    );
+
+    backend.injectError({ status: 403 });
+    await expect(higgsfield.subscribe('/model', { input: {} })).rejects.toThrow(
+      NotEnoughCreditsError
+    );
+
+    backend.injectError({ status: 422 });
+    await expect(higgsfield.subscribe('/model', { input: {} })).rejects.toThrow(ValidationError);
+
+    backend.injectError({ status: 503 });
+    await expect(higgsfield.subscribe('/model', { input: {} })).rejects.toThrow(ServerError);
+
+    backend.injectError({ status: 429, headers: { 'Retry-After': '1' } });
+    const rateLimited = await higgsfield.subscribe('/model', { input: {} }).catch((e) => e);
+    expect(rateLimited).toBeInstanceOf(RateLimitError);
+    expect(rateLimited.retryAfter).toBe(1000);
+    expect(backend.submissions).toHaveLength(0);
+  });
+
+  it('should keep polling through transient errors and not duplicate retried submissions', async () => {
+    const higgsfield = createMockHiggsfieldClient();
+    higgsfield.backend.injectError({ status: 502, method: 'POST', times: 2 });
+    higgsfield.backend.injectError({ status: 503, path: /\/status$/ });
+
+    const response = await higgsfield.subscribe('/model', { input: { prompt: 'retry' } });
+
+    expect(response.status).toBe('completed');
+    expect(higgsfield.backend.submissions).toHaveLength(1);
+  });
+
+  it('should upload files without leaving the process', async () => {
+    const higgsfield = createMockHiggsfieldClient();
+
+    const url = await higgsfield.storage.upload(Buffer.from('\x89PNG\r\n\x1a\n', 'latin1'));
+
+    const [upload] = Array.from(higgsfield.backend.uploads.values());
+    expect(url).toBe(upload.publicUrl);
+    expect(upload.contentType).toBe('image/png');
+    expect(upload.data?.length).toBe(8);
+  });
+});
@@ -0,0 +1,56 @@
+import { createHiggsfieldClient, HiggsfieldClient, V2ClientConfig } from '../v2/client';
+import { EndpointScript, FakeBackend } from './fake-backend';
+
+export interface MockClientOptions extends Omit<V2ClientConfig, 'adapter'> {
+  backend?: FakeBackend; // Share one backend between clients
+  scripts?: Record<string, EndpointScript>; // Endpoint scripts to start with
+}
+
+/**
+ * A HiggsfieldClient whose requests are served by an in-memory FakeBackend
+ */
+export interface MockHiggsfieldClient extends HiggsfieldClient {
+  backend: FakeBackend;
+}
+
+/**
+ * Creates a client for tests that never touches the network.
+ * Polling and retries run with millisecond delays so scripted sequences finish quickly.
+ * @example
+ * const higgsfield = createMockHiggsfieldClient();
+ * higgsfield.backend.script('/v1/text2image/soul', { statuses: ['queued', 'failed'] });
+ * higgsfield.backend.injectError({ status: 401 });
+ *
+ * await myCode(higgsfield);
+ * expect(higgsfield.backend.submissionsTo('/v1/text2image/soul')[0].input.prompt).toBe('...');
+ */
+export function createMockHiggsfieldClient(options: MockClientOptions = {}): MockHiggsfieldClient {
+  const { backend: sharedBackend, scripts, ...config } = options;
+  const backend = sharedBackend || new FakeBackend({ baseURL: config.baseURL });
+  for (const [endpoint, script] of Object.entries(scripts || {})) {
+    backend.script(endpoint, script);
+  }
+
+  const client = createHiggsfieldClient(mockConfig(config, backend));
+
+  const configure = client.configure;
+  return Object.assign(client, {
+    backend,
+    // Reconfiguring must not reconnect the client to the network
+    configure(newConfig: V2ClientConfig): void {
+      configure(mockConfig(newConfig, backend));
+    },
+  });
+}
+
+function mockConfig(config: V2ClientConfig, backend: FakeBackend): V2ClientConfig {
+  return {
+    credentials: config.apiKey ? undefined : 'test-key:test-secret',
+    baseURL: backend.baseURL,
+    pollInterval: 1,
+    retryBackoff: 1,
+    retryMaxBackoff: 10,
+    ...config,
+    adapter: backend.adapter,
+  };
+}
@@ -0,0 +1,111 @@
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { HiggsfieldClient as V1Client } from '../client';
+import { downloadResult } from '../download';
+import { ServerError } from '../errors';
+import { webhook } from '../helpers';
+import { createHiggsfieldClient } from '../v2/client';
+import { createNodeWebhookHandler, WebhookEvent } from '../webhooks';
+import { FakeServer, startFakeServer } from './server';
+
+describe('Fake server', () => {
+  let server: FakeServer;
+
+  afterEach(async () => {
+    await server?.close();
+  });
+
+  const v2Client = (maxRetries = 3) =>
+    createHiggsfieldClient({
+      credentials: 'key:secret',
+      baseURL: server.url,
+      pollInterval: 5,
+      maxRetries,
+      retryBackoff: 1,
+      retryMaxBackoff: 5,
+    });
+
+  it('should serve v2 generations with downloadable results and uploads', async () => {
+    server = await startFakeServer({ stepDuration: 10 });
+    const higgsfield = v2Client();
+
+    const imageUrl = await higgsfield.storage.upload(Buffer.from('GIF89a-bytes'));
+    const response = await higgsfield.subscribe('/nano-banana-pro', {
+      input: { prompt: 'a fox', image_urls: [imageUrl] },
+    });
+
+    expect(response.status).toBe('completed');
+    expect(server.backend.submissions[0].input.image_urls).toEqual([imageUrl]);
+
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'higgsfield-fake-server-'));
+    try {
+      const [file] = await downloadResult(response, dir);
+      expect(path.basename(file.path)).toBe('0.png');
+      const [upload] = await downloadResult(imageUrl, dir);
+      expect(await fs.promises.readFile(upload.path, 'utf8')).toBe('GIF89a-bytes');
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should serve v1 job sets and Soul IDs', async () => {
+    server = await startFakeServer({ stepDuration: 10 });
+    server.backend.script('/v1/text2image/soul', { images: 2 });
+    const client = new V1Client({
+      apiKey: 'key',
+      apiSecret: 'secret',
+      baseURL: server.url,
+      pollInterval: 5,
+    });
+
+    const jobSet = await client.generate('/v1/text2image/soul', { prompt: 'a fox' });
+    expect(jobSet.isCompleted).toBe(true);
+    expect(jobSet.results).toHaveLength(2);
+
+    const soulId = await client.createSoulId({ name: 'Me', input_images: [] });
+    expect(soulId.isCompleted).toBe(true);
+    const list = await client.listSoulIds();
+    expect(list.items.map((item) => item.name)).toEqual(['Me']);
+    expect(await client.getMotions()).not.toHaveLength(0);
+  });
+
+  it('should call webhooks with the secret once requests settle', async () => {
+    const events: WebhookEvent[] = [];
+    const receiver = http.createServer(
+      createNodeWebhookHandler({ secret: 'shh', onEvent: (event) => void events.push(event) })
+    );
+    await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+    const receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+
+    try {
+      let onWebhook!: () => void;
+      const delivered = new Promise<void>((resolve) => (onWebhook = resolve));
+      server = await startFakeServer({ stepDuration: 10, webhookSecret: 'shh', onWebhook });
+
+      await v2Client().subscribe('/nano-banana-pro', {
+        input: { prompt: 'a fox' },
+        webhook: webhook(receiverUrl, 'shh'),
+      });
+      await delivered;
+
+      expect(server.webhookDeliveries).toEqual([expect.objectContaining({ status: 200 })]);
+      expect(events[0]).toMatchObject({ version: 'v2', payload: { status: 'completed' } });
+    } finally {
+      await new Promise((resolve) => receiver.close(resolve));
+    }
+  });
+
+  it('should fail requests at the configured rate after latency', async () => {
+    server = await startFakeServer({ failureRate: 1, failureStatuses: [502], latency: 20 });
+
+    const started = Date.now();
+    await expect(
+      v2Client(0).subscribe('/nano-banana-pro', { input: { prompt: 'a fox' } })
+    ).rejects.toThrow(ServerError);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(15);
+    expect(server.backend.submissions).toHaveLength(0);
+  });
+});
@@ -0,0 +1,232 @@
+import axios from 'axios';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { WEBHOOK_SECRET_HEADER } from '../webhooks';
+import { FakeBackend, FakeHttpResponse, FakeSubmission } from './fake-backend';
+
+export interface LatencyRange {
+  min: number; // ms
+  max: number; // ms
+}
+
+export interface FakeServerOptions {
+  port?: number; // 0 picks a free port (default: 0)
+  host?: string; // default: 127.0.0.1
+  backend?: FakeBackend; // Script it before or while the server runs
+  stepDuration?: number; // ms each status lasts (default: 100), unless `backend` is given
+  latency?: number | LatencyRange; // Delay before every response, in ms
+  failureRate?: number; // Share of requests answered with a random failure status, 0 to 1
+  failureStatuses?: number[]; // default: 500, 502, 503
+  webhookSecret?: string; // Sent with v2 webhooks, whose submissions carry no secret
+  random?: () => number; // Source of latency and failure decisions (default: Math.random)
+  onWebhook?: (delivery: WebhookDelivery) => void;
+}
+
+export interface WebhookDelivery {
+  requestId: string;
+  url: string;
+  status?: number; // HTTP status returned by the receiver
+  error?: Error; // Set when the receiver could not be reached
+}
+
+/**
+ * A running stand-in API. Point a client's baseURL at `url`.
+ */
+export interface FakeServer {
+  url: string;
+  backend: FakeBackend;
+  webhookDeliveries: WebhookDelivery[];
+  close(): Promise<void>;
+}
+
+const DEFAULT_STEP_DURATION = 100;
+const DEFAULT_FAILURE_STATUSES = [500, 502, 503];
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Starts a local HTTP server emulating the Higgsfield API:
+ * v2 submissions, status and cancel, v1 job sets and Soul IDs, and uploads.
+ * Requests advance through their scripted statuses over time, and submissions with a webhook
+ * are called back once they settle.
+ * @example
+ * const server = await startFakeServer({ latency: { min: 20, max: 200 }, failureRate: 0.1 });
+ * const higgsfield = createHiggsfieldClient({ credentials: 'key:secret', baseURL: server.url });
+ * // ...
+ * await server.close();
+ */
+export async function startFakeServer(options: FakeServerOptions = {}): Promise<FakeServer> {
+  const random = options.random ?? Math.random;
+  const stepDuration = options.stepDuration ?? DEFAULT_STEP_DURATION;
+  const backend = options.backend ?? new FakeBackend({ stepDuration });
+  const webhookDeliveries: WebhookDelivery[] = [];
+  const timers = new Set<NodeJS.Timeout>();
+  let watched = 0; // Submissions already checked for a webhook
+
+  function schedule(callback: () => void, ms: number): void {
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      callback();
+    }, ms);
+    timers.add(timer);
+  }
+
+  async function deliverWebhook(submission: FakeSubmission): Promise<void> {
+    const { requestId, webhookUrl } = submission;
+    const secret = submission.webhookSecret ?? options.webhookSecret;
+    const delivery: WebhookDelivery = { requestId, url: webhookUrl! };
+
+    try {
+      const response = await axios.post(webhookUrl!, backend.getPayload(requestId), {
+        headers: secret ? { [WEBHOOK_SECRET_HEADER]: secret } : {},
+        validateStatus: () => true,
+      });
+      delivery.status = response.status;
+    } catch (error) {
+      delivery.error = error as Error;
+    }
+
+    webhookDeliveries.push(delivery);
+    options.onWebhook?.(delivery);
+  }
+
+  function watchForWebhook(submission: FakeSubmission): void {
+    const check = () => {
+      if (backend.isSettled(submission.requestId)) {
+        void deliverWebhook(submission);
+      } else {
+        schedule(check, stepDuration);
+      }
+    };
+    schedule(check, stepDuration);
+  }
+
+  async function respond(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(req.headers)) {
+      headers[name] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+
+    const body = await readRequestBody(req);
+    const latency = pickLatency(options.latency, random);
+    if (latency > 0) {
+      await new Promise<void>((resolve) => schedule(resolve, latency));
+    }
+
+    let response: FakeHttpResponse;
+    if (options.failureRate && random() < options.failureRate) {
+      const statuses = options.failureStatuses ?? DEFAULT_FAILURE_STATUSES;
+      const status = statuses[Math.floor(random() * statuses.length)];
+      response = { status, body: { detail: `Injected failure (${status})` } };
+    } else {
+      response = await backend.handle({
+        method: (req.method || 'GET').toUpperCase(),
+        path: url.pathname,
+        query: url.searchParams,
+        headers,
+        body: parseBody(body, headers['content-type']),
+      });
+    }
+
+    // Watch each new submission that asked for a webhook; the backend may have been reset
+    for (
+      watched = Math.min(watched, backend.submissions.length);
+      watched < backend.submissions.length;
+      watched++
+    ) {
+      const submission = backend.submissions[watched];
+      if (submission.webhookUrl) {
+        watchForWebhook(submission);
+      }
+    }
+
+    writeResponse(res, response);
+  }
+
+  const server = http.createServer((req, res) => {
+    respond(req, res).catch((error) => {
+      writeResponse(res, { status: 500, body: { detail: (error as Error).message } });
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, options.host ?? '127.0.0.1', resolve);
+  });
+
+  const { address, port } = server.address() as AddressInfo;
+  const host = address.includes(':') ? `[${address}]` : address;
+  const url = `http://${host}:${port}`;
+  backend.baseURL = url;
+  backend.cdnURL = `${url}/__cdn`;
+
+  return {
+    url,
+    backend,
+    webhookDeliveries,
+    async close(): Promise<void> {
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+      server.closeAllConnections?.();
+      await new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      );
+    },
+  };
+}
+
+function pickLatency(latency: number | LatencyRange | undefined, random: () => number): number {
+  if (latency === undefined) {
+    return 0;
+  }
+  if (typeof latency === 'number') {
+    return latency;
+  }
+  return latency.min + random() * (latency.max - latency.min);
+}
+
+async function readRequestBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function parseBody(body: Buffer, contentType?: string): any {
+  if (body.length === 0) {
+    return undefined;
+  }
+  if (contentType?.includes('application/json')) {
+    try {
+      return JSON.parse(body.toString('utf8'));
+    } catch (error) {
+      return body;
+    }
+  }
+  return body;
+}
+
+function writeResponse(res: ServerResponse, response: FakeHttpResponse): void {
+  if (res.headersSent) {
+    return;
+  }
+  const isBuffer = Buffer.isBuffer(response.body);
+  const payload = isBuffer
+    ? response.body
+    : response.body === undefined
+      ? Buffer.alloc(0)
+      : Buffer.from(JSON.stringify(response.body));
+
+  res.writeHead(response.status, {
+    ...(isBuffer ? {} : { 'Content-Type': 'application/json' }),
+    ...response.headers,
+    'Content-Length': String(payload.length),
+  });
+  res.end(payload);
+}
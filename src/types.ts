@@ -1,3 +1,5 @@
+import { Readable } from 'stream';
+
 export enum JobStatus {
   QUEUED = 'queued',
   IN_PROGRESS = 'in_progress',
@@ -21,7 +23,9 @@ export enum InputImageType {
 
 export interface Result {
   url: string;
-  type: string;
+  type: string; // Media kind, e.g. image or video
+  width?: number; // Pixel dimensions, where the API returns them
+  height?: number;
 }
 
 export type ResultKey = 'raw' | 'min';
@@ -31,6 +35,8 @@ export interface Job {
   id: string;
   status: string;
   results?: Results | null;
+  error?: string; // Failure details, when the server provides them
+  reason?: string;
 }
 
 export interface JobSetData {
@@ -58,11 +64,21 @@ export interface GenerateParams {
   [key: string]: any;
 }
 
+export interface PollOptions {
+  signal?: AbortSignal;
+}
+
 export interface WebhookPayload {
   url: string;
   secret: string;
 }
 
+/**
+ * Data accepted by uploads:
+ * a Buffer, Uint8Array, Blob, readable stream, file path or `file://` URL
+ */
+export type UploadSource = Buffer | Uint8Array | Blob | Readable | string;
+
 export interface UploadResponse {
   upload_url: string;
   public_url: string;
@@ -0,0 +1,55 @@
+import axios, { AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+export interface AdapterResponse {
+  status: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+  data?: any;
+}
+
+/**
+ * Turn a response produced without the network into what axios adapters return,
+ * rejecting with an AxiosError when the status fails `validateStatus` as real adapters do
+ */
+export function settleResponse(
+  config: InternalAxiosRequestConfig,
+  response: AdapterResponse
+): AxiosResponse {
+  // Lower-case names, as Node's http module gives the real adapter
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(response.headers || {})) {
+    headers[name.toLowerCase()] = value;
+  }
+
+  const axiosResponse: AxiosResponse = {
+    data: response.data,
+    status: response.status,
+    statusText: response.statusText ?? String(response.status),
+    headers: AxiosHeaders.from(headers),
+    config,
+    request: {},
+  };
+
+  const validateStatus = config.validateStatus ?? axios.defaults.validateStatus;
+  if (validateStatus && !validateStatus(response.status)) {
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      axiosResponse.request,
+      axiosResponse
+    );
+  }
+  return axiosResponse;
+}
+
+/**
+ * Request headers as a plain object with lower-case names
+ */
+export function requestHeaders(config: InternalAxiosRequestConfig): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(config.headers.toJSON())) {
+    headers[name.toLowerCase()] = String(value);
+  }
+  return headers;
+}
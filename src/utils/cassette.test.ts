@@ -0,0 +1,162 @@
+import axios, { AxiosAdapter } from 'axios';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { HiggsfieldClient as V1Client } from '../client';
+import { CassetteMismatchError, NotEnoughCreditsError } from '../errors';
+import { FakeBackend } from '../testing/fake-backend';
+import { createHiggsfieldClient } from '../v2/client';
+import { Cassette } from './cassette';
+
+describe('Cassette', () => {
+  const originalAdapter = axios.defaults.adapter;
+  let dir: string;
+  let cassettePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'higgsfield-cassette-test-'));
+    cassettePath = path.join(dir, 'cassettes', 'soul.json');
+    // Replays must never reach the network
+    axios.defaults.adapter = async () => {
+      throw new Error('Unexpected network request');
+    };
+  });
+
+  afterEach(async () => {
+    axios.defaults.adapter = originalAdapter;
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  const v2Client = (cassette: Cassette, backend?: FakeBackend) =>
+    createHiggsfieldClient({
+      credentials: 'recorded-key:recorded-secret',
+      baseURL: 'https://api.test',
+      pollInterval: 1,
+      maxRetries: 0,
+      adapter: backend?.adapter,
+      cassette,
+    });
+
+  it('should record the polling sequence with credentials redacted and replay it offline', async () => {
+    const backend = new FakeBackend({ baseURL: 'https://api.test' });
+    const recorded = await v2Client(
+      new Cassette({ path: cassettePath, mode: 'record' }),
+      backend
+    ).subscribe('/nano-banana-pro', { input: { prompt: 'a fox' } });
+
+    const file = await fs.promises.readFile(cassettePath, 'utf8');
+    expect(file).not.toContain('recorded-secret');
+    expect(file).toContain('[REDACTED]');
+
+    const cassette = new Cassette({ path: cassettePath });
+    expect(cassette.interactions.map(({ response }) => response.body.status)).toEqual([
+      'queued',
+      'in_progress',
+      'completed',
+    ]);
+
+    const statuses: string[] = [];
+    const replayed = await v2Client(cassette).subscribe('/nano-banana-pro', {
+      input: { prompt: 'a fox' },
+      onQueueUpdate: (update) => statuses.push(update.status),
+    });
+
+    expect(statuses).toEqual(['queued', 'in_progress', 'completed']);
+    expect(replayed.images).toEqual(recorded.images);
+    expect(() => cassette.assertAllPlayed()).not.toThrow();
+  });
+
+  it('should replay without credentials in the environment', async () => {
+    const backend = new FakeBackend({ baseURL: 'https://api.test' });
+    await v2Client(new Cassette({ path: cassettePath, mode: 'record' }), backend).subscribe(
+      '/nano-banana-pro',
+      { input: { prompt: 'a fox' } }
+    );
+
+    const env = { ...process.env };
+    for (const name of ['HF_CREDENTIALS', 'HF_KEY', 'HF_API_KEY', 'HF_API_SECRET']) {
+      delete process.env[name];
+    }
+    try {
+      const replayed = await createHiggsfieldClient({
+        baseURL: 'https://api.test',
+        pollInterval: 1,
+        cassette: { path: cassettePath, mode: 'replay' },
+      }).subscribe('/nano-banana-pro', { input: { prompt: 'a fox' } });
+      expect(replayed.status).toBe('completed');
+
+      expect(
+        () => new V1Client({ cassette: { path: cassettePath, mode: 'replay' } })
+      ).not.toThrow();
+      expect(() => new V1Client({ baseURL: 'https://api.test' })).toThrow();
+    } finally {
+      process.env = env;
+    }
+  });
+
+  it('should replay recorded error responses', async () => {
+    const backend = new FakeBackend({ baseURL: 'https://api.test' });
+    backend.injectError({ status: 403 });
+    const record = new Cassette({ path: cassettePath, mode: 'record' });
+    await expect(
+      v2Client(record, backend).subscribe('/nano-banana-pro', { input: { prompt: 'a fox' } })
+    ).rejects.toThrow(NotEnoughCreditsError);
+
+    await expect(
+      v2Client(new Cassette({ path: cassettePath })).subscribe('/nano-banana-pro', {
+        input: { prompt: 'a fox' },
+      })
+    ).rejects.toThrow(NotEnoughCreditsError);
+  });
+
+  it('should fail loudly on requests that were not recorded', async () => {
+    const backend = new FakeBackend({ baseURL: 'https://api.test' });
+    await v2Client(new Cassette({ path: cassettePath, mode: 'auto' }), backend).subscribe(
+      '/nano-banana-pro',
+      { input: { prompt: 'a fox' } }
+    );
+
+    const cassette = new Cassette({ path: cassettePath, mode: 'auto' });
+    expect(cassette.mode).toBe('replay');
+
+    const error = await v2Client(cassette)
+      .subscribe('/nano-banana-pro', { input: { prompt: 'a wolf' } })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(CassetteMismatchError);
+    expect(error.message).toContain('recorded with body {"prompt":"a fox"}');
+    expect(() => cassette.assertAllPlayed()).toThrow(CassetteMismatchError);
+
+    expect(() => new Cassette({ path: path.join(dir, 'missing.json') })).toThrow(
+      CassetteMismatchError
+    );
+  });
+
+  it('should plug into the v1 client', async () => {
+    const backend = new FakeBackend({ baseURL: 'https://api.test' });
+    const v1Client = (cassette: Cassette, adapter?: AxiosAdapter) =>
+      new V1Client({
+        apiKey: 'recorded-key',
+        apiSecret: 'recorded-secret',
+        baseURL: 'https://api.test',
+        pollInterval: 1,
+        adapter,
+        cassette,
+      });
+
+    await v1Client(new Cassette({ path: cassettePath, mode: 'record' }), backend.adapter).generate(
+      '/v1/text2image/soul',
+      { prompt: 'a fox' },
+      { webhook: { url: 'https://hooks.test', secret: 'webhook-secret' } }
+    );
+    expect(await fs.promises.readFile(cassettePath, 'utf8')).not.toMatch(
+      /recorded-secret|webhook-secret/
+    );
+
+    const jobSet = await v1Client(new Cassette({ path: cassettePath })).generate(
+      '/v1/text2image/soul',
+      { prompt: 'a fox' },
+      { webhook: { url: 'https://hooks.test', secret: 'webhook-secret' } }
+    );
+    expect(jobSet.isCompleted).toBe(true);
+  });
+});
@@ -0,0 +1,326 @@
+import axios, { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import fs from 'fs';
+import path from 'path';
+import { CassetteMismatchError } from '../errors';
+import { requestHeaders, settleResponse } from './adapter';
+import { isReadableStream } from './upload';
+
+/**
+ * - record: send requests and save every request/response pair, replacing the file
+ * - replay: answer requests from the file only, never touching the network
+ * - auto: replay when the file exists, record otherwise
+ */
+export type CassetteMode = 'record' | 'replay' | 'auto';
+
+export interface CassetteOptions {
+  path: string; // JSON file the interactions are saved to
+  mode?: CassetteMode; // default: 'replay'
+  redactHeaders?: string[]; // Headers to redact besides the credential headers
+}
+
+export interface CassetteRequest {
+  method: string;
+  url: string; // Absolute, with query string
+  headers: Record<string, string>;
+  body?: any; // Parsed JSON when possible; omitted for streamed uploads
+}
+
+export interface CassetteResponse {
+  status: number;
+  statusText?: string;
+  headers: Record<string, string>;
+  body?: any;
+  bodyEncoding?: 'base64'; // Set when the body is binary
+}
+
+export interface CassetteInteraction {
+  request: CassetteRequest;
+  response: CassetteResponse;
+}
+
+interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+const REDACTED = '[REDACTED]';
+const CREDENTIAL_HEADERS = [
+  'authorization',
+  'hf-api-key',
+  'hf-secret',
+  'x-webhook-secret-key',
+  'cookie',
+  'set-cookie',
+];
+// Webhook secrets travel in v1 submission bodies
+const SECRET_BODY_KEYS = ['secret'];
+
+/**
+ * Records request/response pairs to a JSON file and replays them offline.
+ * Credentials are redacted before anything is written.
+ * In replay, each request is answered by the first unplayed interaction with the same
+ * method, URL and body, so repeated status polls replay their recorded sequence in order.
+ * Requests without a recorded match throw CassetteMismatchError.
+ * @example
+ * const higgsfield = createHiggsfieldClient({
+ *   cassette: { path: '__cassettes__/soul.json', mode: process.env.CI ? 'replay' : 'auto' },
+ * });
+ */
+export class Cassette {
+  readonly path: string;
+  readonly mode: 'record' | 'replay';
+  readonly interactions: CassetteInteraction[];
+
+  private readonly redactHeaders: string[];
+  private readonly played = new Set<number>();
+
+  constructor(options: CassetteOptions) {
+    this.path = options.path;
+    this.redactHeaders = [
+      ...CREDENTIAL_HEADERS,
+      ...(options.redactHeaders || []).map((name) => name.toLowerCase()),
+    ];
+
+    this.mode = resolveMode(options);
+    this.interactions = this.mode === 'replay' ? this.load() : [];
+  }
+
+  /**
+   * Recorded interactions that have not been replayed yet
+   */
+  get unplayed(): CassetteInteraction[] {
+    return this.interactions.filter((_, index) => !this.played.has(index));
+  }
+
+  /**
+   * Throws if a replayed test made fewer requests than were recorded
+   * @throws CassetteMismatchError
+   */
+  assertAllPlayed(): void {
+    const unplayed = this.unplayed;
+    if (this.mode === 'replay' && unplayed.length > 0) {
+      const list = unplayed.map(({ request }) => `${request.method} ${request.url}`).join(', ');
+      throw new CassetteMismatchError(
+        `${unplayed.length} recorded request(s) in ${this.path} were not replayed: ${list}`
+      );
+    }
+  }
+
+  /**
+   * Axios adapter recording through `adapter` (default: axios' own), or replaying
+   */
+  adapter(adapter?: AxiosAdapter): AxiosAdapter {
+    return (config) =>
+      this.mode === 'replay' ? this.replay(config) : this.record(config, adapter);
+  }
+
+  private async record(
+    config: InternalAxiosRequestConfig,
+    adapter?: AxiosAdapter
+  ): Promise<AxiosResponse> {
+    const request = this.describeRequest(config);
+    const send = adapter ?? axios.getAdapter(axios.defaults.adapter);
+
+    let response: AxiosResponse;
+    try {
+      response = await send(config);
+    } catch (error) {
+      // Error responses are part of the recording; network failures are not
+      if (axios.isAxiosError(error) && error.response) {
+        this.save(request, error.response);
+      }
+      throw error;
+    }
+
+    this.save(request, response);
+    return response;
+  }
+
+  private async replay(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+    // Recorded uploads never read their body, so release it
+    if (isReadableStream(config.data)) {
+      config.data.destroy();
+    }
+
+    const request = this.describeRequest(config);
+    const index = this.interactions.findIndex(
+      (interaction, i) => !this.played.has(i) && sameRequest(interaction.request, request)
+    );
+    if (index === -1) {
+      throw new CassetteMismatchError(this.mismatchMessage(request), request);
+    }
+
+    this.played.add(index);
+    const { response } = this.interactions[index];
+    return settleResponse(config, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+      data:
+        response.bodyEncoding === 'base64' ? Buffer.from(response.body, 'base64') : response.body,
+    });
+  }
+
+  private describeRequest(config: InternalAxiosRequestConfig): CassetteRequest {
+    return {
+      method: (config.method || 'get').toUpperCase(),
+      url: axios.getUri(config),
+      headers: this.redact(requestHeaders(config)),
+      body: isReadableStream(config.data) ? undefined : redactBody(parseJson(config.data)),
+    };
+  }
+
+  private save(request: CassetteRequest, response: AxiosResponse): void {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(response.headers || {})) {
+      if (value !== undefined && value !== null) {
+        headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+      }
+    }
+
+    const binary = Buffer.isBuffer(response.data) || response.data instanceof ArrayBuffer;
+    this.interactions.push({
+      request,
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: this.redact(headers),
+        body: binary
+          ? Buffer.from(response.data as Buffer).toString('base64')
+          : parseJson(response.data),
+        ...(binary ? { bodyEncoding: 'base64' as const } : {}),
+      },
+    });
+
+    // Written after every interaction, so a failing test still leaves its recording behind
+    const file: CassetteFile = { version: 1, interactions: this.interactions };
+    fs.mkdirSync(path.dirname(path.resolve(this.path)), { recursive: true });
+    fs.writeFileSync(this.path, `${JSON.stringify(file, null, 2)}\n`);
+  }
+
+  private load(): CassetteInteraction[] {
+    let file: CassetteFile;
+    try {
+      file = JSON.parse(fs.readFileSync(this.path, 'utf8'));
+    } catch (error) {
+      throw new CassetteMismatchError(
+        `Cannot replay cassette ${this.path}: ${(error as Error).message}`
+      );
+    }
+    if (!Array.isArray(file?.interactions)) {
+      throw new CassetteMismatchError(`Cassette ${this.path} has no interactions`);
+    }
+    return file.interactions;
+  }
+
+  private redact(headers: Record<string, string>): Record<string, string> {
+    const redacted: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      redacted[name] = this.redactHeaders.includes(name) ? REDACTED : value;
+    }
+    return redacted;
+  }
+
+  private mismatchMessage(request: CassetteRequest): string {
+    const message = `No recorded response for ${request.method} ${request.url} in cassette ${this.path}`;
+    const sameUrl = this.interactions.filter(
+      (interaction) =>
+        interaction.request.method === request.method && interaction.request.url === request.url
+    );
+    if (sameUrl.length === 0) {
+      return `${message}: the request was never recorded`;
+    }
+    if (sameUrl.every((interaction) => !sameBody(interaction.request.body, request.body))) {
+      return `${message}: recorded with body ${JSON.stringify(sameUrl[0].request.body)}, sent ${JSON.stringify(request.body)}`;
+    }
+    return `${message}: all ${sameUrl.length} recorded response(s) were already replayed`;
+  }
+}
+
+/**
+ * The adapter a client should use for its config: the configured adapter,
+ * wrapped by a cassette when one is configured
+ */
+export function clientAdapter(config: {
+  adapter?: AxiosAdapter;
+  cassette?: Cassette | CassetteOptions;
+}): AxiosAdapter | undefined {
+  if (!config.cassette) {
+    return config.adapter;
+  }
+  const cassette =
+    config.cassette instanceof Cassette ? config.cassette : new Cassette(config.cassette);
+  return cassette.adapter(config.adapter);
+}
+
+/**
+ * Whether a client with this config never sends requests to the API: it replays a cassette
+ * or has its own adapter. Such clients do not need real credentials.
+ */
+export function isOfflineConfig(config: {
+  adapter?: AxiosAdapter;
+  cassette?: Cassette | CassetteOptions;
+}): boolean {
+  if (config.adapter) {
+    return true;
+  }
+  if (!config.cassette) {
+    return false;
+  }
+  const mode =
+    config.cassette instanceof Cassette ? config.cassette.mode : resolveMode(config.cassette);
+  return mode === 'replay';
+}
+
+function resolveMode(options: CassetteOptions): 'record' | 'replay' {
+  const mode = options.mode ?? 'replay';
+  return mode === 'auto' ? (fs.existsSync(options.path) ? 'replay' : 'record') : mode;
+}
+
+function sameRequest(recorded: CassetteRequest, request: CassetteRequest): boolean {
+  return (
+    recorded.method === request.method &&
+    recorded.url === request.url &&
+    sameBody(recorded.body, request.body)
+  );
+}
+
+function sameBody(recorded: unknown, body: unknown): boolean {
+  return canonicalJson(recorded) === canonicalJson(body);
+}
+
+// JSON with sorted keys, so key order does not affect matching
+function canonicalJson(value: unknown): string {
+  return (
+    JSON.stringify(value, (_key, item) =>
+      item && typeof item === 'object' && !Array.isArray(item)
+        ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+        : item
+    ) ?? ''
+  );
+}
+
+function parseJson(data: unknown): any {
+  if (typeof data !== 'string') {
+    return data;
+  }
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    return data;
+  }
+}
+
+function redactBody(body: any): any {
+  if (Array.isArray(body)) {
+    return body.map(redactBody);
+  }
+  if (body && typeof body === 'object' && !Buffer.isBuffer(body)) {
+    const redacted: Record<string, any> = {};
+    for (const [key, value] of Object.entries(body)) {
+      redacted[key] = SECRET_BODY_KEYS.includes(key) ? REDACTED : redactBody(value);
+    }
+    return redacted;
+  }
+  return body;
+}
@@ -0,0 +1,70 @@
+import path from 'path';
+
+const EXTENSION_CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.wav': 'audio/wav',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+};
+
+export const DEFAULT_CONTENT_TYPE = 'application/octet-stream';
+
+/**
+ * Guess a content type from a file name or path
+ */
+export function contentTypeFromPath(filePath: string): string | undefined {
+  return EXTENSION_CONTENT_TYPES[path.extname(filePath).toLowerCase()];
+}
+
+/**
+ * Guess a content type from the first bytes of a file
+ */
+export function contentTypeFromBytes(data: Uint8Array): string | undefined {
+  const ascii = (start: number, end: number) =>
+    Buffer.from(data.subarray(start, end)).toString('latin1');
+
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (ascii(0, 8) === '\x89PNG\r\n\x1a\n') {
+    return 'image/png';
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') {
+    return 'audio/wav';
+  }
+  if (ascii(0, 3) === 'GIF') {
+    return 'image/gif';
+  }
+  if (ascii(0, 3) === 'ID3' || (data[0] === 0xff && (data[1] & 0xe0) === 0xe0)) {
+    return 'audio/mpeg';
+  }
+  if (ascii(4, 8) === 'ftyp') {
+    return ascii(8, 10) === 'qt' ? 'video/quicktime' : 'video/mp4';
+  }
+  if (data[0] === 0x1a && data[1] === 0x45 && data[2] === 0xdf && data[3] === 0xa3) {
+    return 'video/webm';
+  }
+  return undefined;
+}
+
+/**
+ * Pick the file extension for a content type, e.g. `image/png` -> `.png`
+ */
+export function extensionFromContentType(contentType: string | undefined): string | undefined {
+  if (!contentType) {
+    return undefined;
+  }
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+  const entry = Object.entries(EXTENSION_CONTENT_TYPES).find(([, type]) => type === mimeType);
+  return entry?.[0];
+}
@@ -0,0 +1,117 @@
+import { AxiosError, AxiosHeaders, CanceledError, InternalAxiosRequestConfig } from 'axios';
+import {
+  AbortError,
+  APIError,
+  ConflictError,
+  NetworkError,
+  NotEnoughCreditsError,
+  NotFoundError,
+  PermissionDeniedError,
+  RateLimitError,
+  ServerError,
+  ValidationError,
+} from '../errors';
+import { mapRequestError } from './error-mapper';
+
+const config = {
+  url: '/requests/req-1/status?verbose=1',
+  headers: new AxiosHeaders(),
+} as InternalAxiosRequestConfig;
+
+function responseError(
+  status: number,
+  data: any,
+  headers: Record<string, string> = {}
+): AxiosError {
+  return new AxiosError(
+    `Request failed with status code ${status}`,
+    'ERR_BAD_REQUEST',
+    config,
+    {},
+    {
+      data,
+      status,
+      statusText: String(status),
+      headers,
+      config,
+    }
+  );
+}
+
+describe('mapRequestError', () => {
+  it('should classify 403 by the response body', () => {
+    const credits = mapRequestError(responseError(403, { detail: 'Not enough credits' }));
+    expect(credits).toBeInstanceOf(NotEnoughCreditsError);
+    expect((credits as NotEnoughCreditsError).message).toBe('Not enough credits');
+    expect(
+      mapRequestError(responseError(403, { detail: 'Forbidden', code: 'insufficient_credits' }))
+    ).toBeInstanceOf(NotEnoughCreditsError);
+
+    for (const detail of [
+      'Not enough permissions to access this model',
+      'API key lacks balance:read scope',
+    ]) {
+      expect(mapRequestError(responseError(403, { detail }))).toBeInstanceOf(PermissionDeniedError);
+    }
+
+    const denied = mapRequestError(
+      responseError(403, { detail: 'Model is not available on your plan' })
+    );
+    expect(denied).toBeInstanceOf(PermissionDeniedError);
+    expect((denied as PermissionDeniedError).message).toBe('Model is not available on your plan');
+  });
+
+  it('should map statuses to error types with request context', () => {
+    expect(
+      mapRequestError(responseError(401, { detail: 'Unauthorized', request_id: 'req-1' }))
+    ).toMatchObject({
+      name: 'AuthenticationError',
+      statusCode: 401,
+      requestId: 'req-1',
+      endpoint: '/requests/req-1/status',
+      responseData: { detail: 'Unauthorized', request_id: 'req-1' },
+    });
+
+    const notFound = mapRequestError(
+      responseError(404, { detail: 'Request not found', request_id: 'req-1' })
+    ) as NotFoundError;
+    expect(notFound).toBeInstanceOf(NotFoundError);
+    expect(notFound).toMatchObject({
+      statusCode: 404,
+      requestId: 'req-1',
+      endpoint: '/requests/req-1/status',
+      responseData: { detail: 'Request not found', request_id: 'req-1' },
+    });
+
+    expect(mapRequestError(responseError(409, {}))).toBeInstanceOf(ConflictError);
+    expect(mapRequestError(responseError(422, { detail: [] }))).toBeInstanceOf(ValidationError);
+    expect(mapRequestError(responseError(418, 'teapot'))).toBeInstanceOf(APIError);
+
+    const rateLimited = mapRequestError(responseError(429, {}, { 'retry-after': '2' }));
+    expect(rateLimited).toBeInstanceOf(RateLimitError);
+    expect((rateLimited as RateLimitError).retryAfter).toBe(2000);
+
+    const serverError = mapRequestError(
+      responseError(502, '<html>Bad gateway</html>', { 'x-request-id': 'trace-1' })
+    ) as ServerError;
+    expect(serverError).toBeInstanceOf(ServerError);
+    expect(serverError).toMatchObject({
+      statusCode: 502,
+      requestId: 'trace-1',
+      responseData: '<html>Bad gateway</html>',
+    });
+  });
+
+  it('should map network failures and cancellations', () => {
+    const networkError = mapRequestError(
+      new AxiosError('connect ECONNREFUSED', 'ECONNREFUSED', config)
+    ) as NetworkError;
+    expect(networkError).toBeInstanceOf(NetworkError);
+    expect(networkError).toMatchObject({
+      code: 'ECONNREFUSED',
+      endpoint: '/requests/req-1/status',
+    });
+
+    expect(mapRequestError(new CanceledError())).toBeInstanceOf(AbortError);
+  });
+});
@@ -0,0 +1,99 @@
+import axios, { AxiosError } from 'axios';
+import {
+  AbortError,
+  APIError,
+  AuthenticationError,
+  BadInputError,
+  ConflictError,
+  HiggsfieldError,
+  NetworkError,
+  NotEnoughCreditsError,
+  NotFoundError,
+  PermissionDeniedError,
+  RateLimitError,
+  ServerError,
+  ValidationError,
+  ValidationErrorDetail,
+} from '../errors';
+import { parseRetryAfter } from './retry';
+
+interface ErrorBody {
+  detail?: string | ValidationErrorDetail[];
+  message?: string;
+  error?: string;
+  code?: string;
+  request_id?: string;
+}
+
+// 403 bodies that mean the account ran out of credits rather than lacking access;
+// anything else is a permission problem
+const CREDITS_MESSAGE = /\bcredits?\b|insufficient.?funds/i;
+const CREDITS_CODE = /credit|insufficient.?funds/i;
+
+/**
+ * Turn a failed axios request into the SDK error for its status and body.
+ * Shared by the response interceptors of the v1 and v2 clients.
+ */
+export function mapRequestError(error: unknown): unknown {
+  if (axios.isCancel(error)) {
+    return new AbortError();
+  }
+  if (!axios.isAxiosError(error)) {
+    return error;
+  }
+
+  const endpoint = error.config?.url?.split('?')[0];
+
+  if (!error.response) {
+    const networkError = new NetworkError(error.message, error.code, error);
+    networkError.endpoint = endpoint;
+    return networkError;
+  }
+
+  const { status, data, headers } = error.response as NonNullable<
+    AxiosError<ErrorBody>['response']
+  >;
+  const body: ErrorBody = data && typeof data === 'object' ? data : {};
+  const message = errorMessage(body) || error.message;
+
+  let mapped: HiggsfieldError;
+  if (status === 401) {
+    mapped = new AuthenticationError('Invalid API credentials');
+  } else if (status === 400) {
+    mapped = new BadInputError(body.detail);
+  } else if (status === 403) {
+    mapped =
+      CREDITS_MESSAGE.test(message) || CREDITS_CODE.test(body.code || '')
+        ? new NotEnoughCreditsError(message)
+        : new PermissionDeniedError(message);
+  } else if (status === 404) {
+    mapped = new NotFoundError(message);
+  } else if (status === 409) {
+    mapped = new ConflictError(message);
+  } else if (status === 422) {
+    mapped = new ValidationError(body.detail);
+  } else if (status === 429) {
+    mapped = new RateLimitError(parseRetryAfter(headers['retry-after']));
+  } else if (status >= 500) {
+    mapped = new ServerError(message, status);
+  } else {
+    mapped = new APIError(message, status);
+  }
+
+  return Object.assign(mapped, {
+    responseData: data,
+    requestId: body.request_id || headerValue(headers['x-request-id']),
+    endpoint,
+  });
+}
+
+function errorMessage(body: ErrorBody): string | undefined {
+  if (typeof body.detail === 'string') {
+    return body.detail;
+  }
+  return body.message || body.error;
+}
+
+function headerValue(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
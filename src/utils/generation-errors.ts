@@ -0,0 +1,40 @@
+import { GenerationErrorContext, GenerationFailedError, NsfwContentError } from '../errors';
+
+const REASON_KEYS = ['error', 'failure_reason', 'reason', 'detail', 'message'];
+
+/**
+ * Pick the failure reason out of a response or job, whichever field the server used
+ */
+export function failureReason(data: unknown): string | undefined {
+  if (!data || typeof data !== 'object') {
+    return undefined;
+  }
+
+  for (const key of REASON_KEYS) {
+    const value = (data as Record<string, unknown>)[key];
+    if (typeof value === 'string' && value) {
+      return value;
+    }
+    const message = (value as { message?: unknown } | undefined)?.message;
+    if (typeof message === 'string' && message) {
+      return message;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The error `throwOnFailure` rejects with for a final status, or undefined if it succeeded
+ */
+export function generationError(
+  status: string,
+  context: Omit<GenerationErrorContext, 'status'>
+): GenerationFailedError | NsfwContentError | undefined {
+  if (status === 'nsfw') {
+    return new NsfwContentError({ ...context, status });
+  }
+  if (status === 'failed' || status === 'canceled') {
+    return new GenerationFailedError({ ...context, status });
+  }
+  return undefined;
+}
@@ -0,0 +1,21 @@
+import { randomUUID } from 'crypto';
+import { HiggsfieldError } from '../errors';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * One key per logical submission - every retry of it sends the same key
+ */
+export function createIdempotencyKey(): string {
+  return randomUUID();
+}
+
+/**
+ * Record the submission's key on an SDK error, so it can be matched with server-side records
+ */
+export function tagWithIdempotencyKey<T>(error: T, idempotencyKey: string): T {
+  if (error instanceof HiggsfieldError && !error.idempotencyKey) {
+    error.idempotencyKey = idempotencyKey;
+  }
+  return error;
+}
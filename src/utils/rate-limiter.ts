@@ -0,0 +1,63 @@
+import { RateLimitConfig } from '../config';
+import { sleep, throwIfAborted } from './abort';
+
+/**
+ * Token bucket shared by every request of a client.
+ * Tokens refill continuously at `requestsPerSecond` up to `burst`;
+ * callers wait in order until a token is available.
+ */
+export class RateLimiter {
+  private readonly rate: number; // tokens per ms
+  private readonly capacity: number;
+  private tokens: number;
+  private updatedAt: number;
+  private pausedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(config: RateLimitConfig) {
+    this.rate = config.requestsPerSecond / 1000;
+    this.capacity = config.burst ?? Math.max(1, config.requestsPerSecond);
+    this.tokens = this.capacity;
+    this.updatedAt = Date.now();
+  }
+
+  /**
+   * Wait for a token
+   * @throws AbortError if the signal is aborted while waiting
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    const turn = this.queue.then(() => this.take(signal));
+    // A caller that gave up must not hold up the ones behind it
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  /**
+   * Hold back all requests for the given time, e.g. after the API answered 429
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private async take(signal?: AbortSignal): Promise<void> {
+    while (true) {
+      throwIfAborted(signal);
+
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now, signal);
+        continue;
+      }
+
+      this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.rate);
+      this.updatedAt = now;
+
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      await sleep(Math.ceil((1 - this.tokens) / this.rate), signal);
+    }
+  }
+}
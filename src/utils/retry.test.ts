@@ -0,0 +1,95 @@
+import { AxiosError } from 'axios';
+import {
+  APIError,
+  AuthenticationError,
+  BadInputError,
+  NetworkError,
+  RateLimitError,
+} from '../errors';
+import { isRetryableError, pollRetryDelay, RetryContext, retryWithBackoff } from './retry';
+
+function networkError(code: string): Error {
+  return Object.assign(new Error(`connect ${code}`), { code });
+}
+
+describe('retryWithBackoff', () => {
+  const config = { maxRetries: 3, backoff: 1, maxBackoff: 1 };
+
+  it('should classify SDK, axios and network errors', () => {
+    expect(isRetryableError(new APIError('Bad gateway', 502))).toBe(true);
+    expect(isRetryableError(new RateLimitError(10))).toBe(true);
+    expect(isRetryableError(networkError('ECONNREFUSED'))).toBe(true);
+    expect(isRetryableError(networkError('EAI_AGAIN'))).toBe(true);
+    expect(isRetryableError(new AxiosError('Timeout', 'ETIMEDOUT'))).toBe(true);
+    expect(isRetryableError(new AxiosError('timeout of 10ms exceeded', 'ECONNABORTED'))).toBe(true);
+    expect(isRetryableError(new NetworkError('timeout of 10ms exceeded', 'ECONNABORTED'))).toBe(
+      true
+    );
+
+    expect(isRetryableError(new BadInputError('Invalid'))).toBe(false);
+    expect(isRetryableError(new AuthenticationError())).toBe(false);
+    expect(isRetryableError(new APIError('Not found', 404))).toBe(false);
+    expect(isRetryableError(new Error('Something else'))).toBe(false);
+  });
+
+  it('should pick the poll delay for an error or rethrow it', () => {
+    expect(pollRetryDelay(new RateLimitError(2000), 100)).toBe(2000);
+    expect(pollRetryDelay(new RateLimitError(), 100)).toBe(100);
+    expect(pollRetryDelay(new APIError('Bad gateway', 502), 100)).toBe(100);
+    expect(() => pollRetryDelay(new BadInputError('Invalid'), 100)).toThrow(BadInputError);
+  });
+
+  it('should retry server errors and report each retry', async () => {
+    const retries: RetryContext[] = [];
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new APIError('Service unavailable', 503))
+      .mockRejectedValueOnce(networkError('ECONNREFUSED'))
+      .mockResolvedValue('ok');
+
+    await expect(
+      retryWithBackoff(fn, {
+        ...config,
+        backoff: 5,
+        maxBackoff: 100,
+        strategy: 'fixed',
+        onRetry: (context) => retries.push(context),
+      })
+    ).resolves.toBe('ok');
+
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(retries.map(({ attempt, delay }) => ({ attempt, delay }))).toEqual([
+      { attempt: 1, delay: 5 },
+      { attempt: 2, delay: 5 },
+    ]);
+  });
+
+  it('should not retry client errors', async () => {
+    const fn = jest.fn().mockRejectedValue(new BadInputError('Invalid'));
+
+    await expect(retryWithBackoff(fn, config)).rejects.toThrow(BadInputError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use a custom predicate and keep decorrelated jitter within bounds', async () => {
+    const delays: number[] = [];
+    const fn = jest.fn().mockRejectedValue(new APIError('Not found', 404));
+
+    await expect(
+      retryWithBackoff(fn, {
+        maxRetries: 3,
+        backoff: 2,
+        maxBackoff: 10,
+        strategy: 'decorrelated-jitter',
+        shouldRetry: (error) => error instanceof APIError && error.statusCode === 404,
+        onRetry: ({ delay }) => delays.push(delay),
+      })
+    ).rejects.toThrow('Not found');
+
+    expect(fn).toHaveBeenCalledTimes(4);
+    delays.forEach((delay) => {
+      expect(delay).toBeGreaterThanOrEqual(2);
+      expect(delay).toBeLessThanOrEqual(10);
+    });
+  });
+});
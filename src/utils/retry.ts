@@ -1,49 +1,170 @@
 import { AxiosError } from 'axios';
+import { Config, RetryOptions } from '../config';
+import { AbortError, APIError, DownloadError, RateLimitError } from '../errors';
+import { sleep, throwIfAborted } from './abort';
+
+/**
+ * How the delay between attempts grows:
+ * - exponential: `backoff * 2^attempt` plus up to a second of jitter
+ * - decorrelated-jitter: random between `backoff` and three times the previous delay
+ * - fixed: always `backoff`
+ */
+export type RetryStrategy = 'exponential' | 'decorrelated-jitter' | 'fixed';
+
+export interface RetryContext {
+  error: Error;
+  attempt: number; // Number of the upcoming retry, starting at 1
+  delay: number; // ms until the retry
+}
+
+export type RetryPredicate = (error: Error, attempt: number) => boolean;
 
 export interface RetryConfig {
   maxRetries: number;
   backoff: number;
   maxBackoff: number;
-  retryableErrors?: string[];
+  strategy?: RetryStrategy;
+  shouldRetry?: RetryPredicate; // Defaults to isRetryableError
+  onRetry?: (context: RetryContext) => void;
+  signal?: AbortSignal;
+}
+
+// Transient network failures worth another attempt; axios reports request timeouts as
+// ECONNABORTED, while aborts through a signal become AbortError
+const RETRYABLE_CODES = new Set([
+  'ECONNABORTED',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+]);
+
+/**
+ * Default retry predicate: rate limits, server errors, incomplete downloads
+ * and transient network failures. Client errors (4xx) are never retried.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof AbortError) {
+    return false;
+  }
+  if (error instanceof RateLimitError || error instanceof DownloadError) {
+    return true;
+  }
+  if (error instanceof APIError) {
+    return error.statusCode !== undefined && error.statusCode >= 500;
+  }
+  // Requests sent outside a client (uploads, downloads) keep their AxiosError
+  if (error instanceof AxiosError && error.response) {
+    return error.response.status === 429 || error.response.status >= 500;
+  }
+
+  const code = (error as NodeJS.ErrnoException | undefined)?.code;
+  return typeof code === 'string' && RETRYABLE_CODES.has(code);
+}
+
+/**
+ * How long a status poll loop waits after a failed poll: as long as the API asks when
+ * rate limited, the poll interval after server and network errors
+ * @throws The error itself when it is not worth polling again
+ */
+export function pollRetryDelay(error: unknown, pollInterval: number): number {
+  if (error instanceof RateLimitError) {
+    return error.retryAfter ?? pollInterval;
+  }
+  if (isRetryableError(error)) {
+    return pollInterval;
+  }
+  throw error;
+}
+
+/**
+ * Combine client settings with per-call overrides
+ */
+export function resolveRetryConfig(
+  config: Config,
+  overrides: RetryOptions = {},
+  signal?: AbortSignal
+): RetryConfig {
+  return {
+    maxRetries: overrides.maxRetries ?? config.maxRetries,
+    backoff: overrides.retryBackoff ?? config.retryBackoff,
+    maxBackoff: overrides.retryMaxBackoff ?? config.retryMaxBackoff,
+    strategy: overrides.retryStrategy ?? config.retryStrategy,
+    shouldRetry: overrides.shouldRetry ?? config.shouldRetry,
+    onRetry: overrides.onRetry ?? config.onRetry,
+    signal,
+  };
+}
+
+function nextDelay(config: RetryConfig, attempt: number, previousDelay: number): number {
+  switch (config.strategy) {
+    case 'fixed':
+      return Math.min(config.backoff, config.maxBackoff);
+    case 'decorrelated-jitter': {
+      const upper = Math.max(config.backoff, previousDelay * 3);
+      return Math.min(config.backoff + Math.random() * (upper - config.backoff), config.maxBackoff);
+    }
+    default:
+      return Math.min(
+        config.backoff * Math.pow(2, attempt) + Math.random() * 1000,
+        config.maxBackoff
+      );
+  }
 }
 
 export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   config: RetryConfig
 ): Promise<T> {
+  const shouldRetry = config.shouldRetry ?? isRetryableError;
   let lastError: Error | undefined;
+  let delay = config.backoff;
 
   for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
+    throwIfAborted(config.signal);
+
     try {
       return await fn();
     } catch (error) {
       lastError = error as Error;
 
-      if (attempt === config.maxRetries) {
+      if (
+        attempt === config.maxRetries ||
+        error instanceof AbortError ||
+        !shouldRetry(lastError, attempt + 1)
+      ) {
         throw lastError;
       }
 
-      // Check if error is retryable
-      if (error instanceof AxiosError) {
-        const isRetryable = 
-          error.code === 'ECONNRESET' ||
-          error.code === 'ETIMEDOUT' ||
-          error.code === 'ENOTFOUND' ||
-          (error.response && error.response.status >= 500);
-
-        if (!isRetryable) {
-          throw error;
-        }
-      }
+      // The API says how long to wait when rate limiting
+      delay =
+        error instanceof RateLimitError && error.retryAfter !== undefined
+          ? error.retryAfter
+          : nextDelay(config, attempt, delay);
 
-      const delay = Math.min(
-        config.backoff * Math.pow(2, attempt) + Math.random() * 1000,
-        config.maxBackoff
-      );
-
-      await new Promise(resolve => setTimeout(resolve, delay));
+      config.onRetry?.({ error: lastError, attempt: attempt + 1, delay });
+      await sleep(delay, config.signal);
     }
   }
 
   throw lastError || new Error('Retry failed');
-}
\ No newline at end of file
+}
+
+/**
+ * Parse a Retry-After header, given either in seconds or as an HTTP date
+ * @returns The delay in ms, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,262 @@
+import axios, { AxiosInstance } from 'axios';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pipeline, Readable, Transform } from 'stream';
+import { fileURLToPath } from 'url';
+import { promisify } from 'util';
+import { Config, RetryOptions } from '../config';
+import { AbortError, BadInputError } from '../errors';
+import { UploadResponse, UploadSource } from '../types';
+import { throwIfAborted } from './abort';
+import { contentTypeFromBytes, contentTypeFromPath, DEFAULT_CONTENT_TYPE } from './content-type';
+import { resolveRetryConfig, retryWithBackoff } from './retry';
+
+const pipelineAsync = promisify(pipeline);
+
+// Size of the chunks in-memory data is streamed in, so progress is reported during the upload
+const CHUNK_SIZE = 1024 * 1024;
+const SNIFF_BYTES = 16;
+
+export interface UploadProgress {
+  loaded: number; // Bytes sent so far in the current attempt
+  total: number;
+}
+
+export interface UploadOptions {
+  contentType?: string; // Detected from the file name or contents when omitted
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+  maxSize?: number; // Reject uploads larger than this many bytes
+  retry?: RetryOptions; // Override the client's retry settings for this upload
+}
+
+/**
+ * Upload body that can be re-opened for every retry attempt
+ */
+interface UploadBody {
+  size: number;
+  contentType: string;
+  open(): Readable;
+  cleanup(): Promise<void>;
+}
+
+export function isBlob(value: unknown): value is Blob {
+  return typeof Blob !== 'undefined' && value instanceof Blob;
+}
+
+export function isReadableStream(value: unknown): value is Readable {
+  return (
+    value instanceof Readable ||
+    (typeof value === 'object' &&
+      value !== null &&
+      typeof (value as Readable).pipe === 'function' &&
+      typeof (value as Readable).on === 'function')
+  );
+}
+
+function checkSize(size: number, maxSize?: number): void {
+  if (maxSize !== undefined && size > maxSize) {
+    throw new BadInputError(`Upload size ${size} bytes exceeds the limit of ${maxSize} bytes`);
+  }
+}
+
+function bufferBody(data: Buffer, contentType: string): UploadBody {
+  return {
+    size: data.length,
+    contentType,
+    open: () => {
+      const chunks: Buffer[] = [];
+      for (let offset = 0; offset < data.length; offset += CHUNK_SIZE) {
+        chunks.push(data.subarray(offset, offset + CHUNK_SIZE));
+      }
+      return Readable.from(chunks);
+    },
+    cleanup: async () => undefined,
+  };
+}
+
+async function fileBody(
+  filePath: string,
+  contentType: string | undefined,
+  cleanup: () => Promise<void> = async () => undefined
+): Promise<UploadBody> {
+  const { size } = await fs.promises.stat(filePath);
+
+  if (!contentType) {
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+      const header = Buffer.alloc(SNIFF_BYTES);
+      const { bytesRead } = await handle.read(header, 0, SNIFF_BYTES, 0);
+      contentType = contentTypeFromBytes(header.subarray(0, bytesRead));
+    } finally {
+      await handle.close();
+    }
+  }
+
+  return {
+    size,
+    contentType: contentType || DEFAULT_CONTENT_TYPE,
+    open: () => fs.createReadStream(filePath),
+    cleanup,
+  };
+}
+
+/**
+ * Streams can only be read once, so they are spooled to a temporary file
+ * which is then uploaded (and re-read on retries) without buffering in memory
+ */
+async function spoolStream(
+  stream: Readable,
+  contentType: string | undefined,
+  options: UploadOptions
+): Promise<UploadBody> {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'higgsfield-upload-'));
+  const tempFile = path.join(dir, 'upload');
+  const cleanup = () => fs.promises.rm(dir, { recursive: true, force: true });
+
+  let size = 0;
+  const limiter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      try {
+        checkSize(size, options.maxSize);
+        callback(null, chunk);
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+  });
+
+  try {
+    await pipelineAsync(stream, limiter, fs.createWriteStream(tempFile));
+    return await fileBody(tempFile, contentType, cleanup);
+  } catch (error) {
+    await cleanup();
+    throw error;
+  }
+}
+
+async function resolveUploadBody(
+  source: UploadSource,
+  options: UploadOptions
+): Promise<UploadBody> {
+  const { contentType } = options;
+
+  if (typeof source === 'string') {
+    const filePath = source.startsWith('file://') ? fileURLToPath(source) : source;
+    return fileBody(filePath, contentType || contentTypeFromPath(filePath));
+  }
+
+  if (isBlob(source)) {
+    const data = Buffer.from(await source.arrayBuffer());
+    return bufferBody(
+      data,
+      contentType || source.type || contentTypeFromBytes(data) || DEFAULT_CONTENT_TYPE
+    );
+  }
+
+  if (source instanceof Uint8Array) {
+    const data = Buffer.from(source.buffer, source.byteOffset, source.byteLength);
+    return bufferBody(data, contentType || contentTypeFromBytes(data) || DEFAULT_CONTENT_TYPE);
+  }
+
+  if (isReadableStream(source)) {
+    // fs.ReadStream exposes the file path, which also gives a content type
+    const streamPath = (source as Readable & { path?: string | Buffer }).path;
+    const pathContentType =
+      typeof streamPath === 'string' ? contentTypeFromPath(streamPath) : undefined;
+    return spoolStream(source, contentType || pathContentType, options);
+  }
+
+  throw new BadInputError('Upload data must be a Buffer, Uint8Array, Blob, stream or file path');
+}
+
+function trackProgress(
+  stream: Readable,
+  total: number,
+  onProgress?: (progress: UploadProgress) => void
+): Readable {
+  if (!onProgress) {
+    return stream;
+  }
+
+  let loaded = 0;
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      loaded += chunk.length;
+      onProgress({ loaded, total });
+      callback(null, chunk);
+    },
+  });
+  stream.on('error', (error) => counter.destroy(error));
+  return stream.pipe(counter);
+}
+
+async function getUploadLink(
+  client: AxiosInstance,
+  contentType: string,
+  signal?: AbortSignal
+): Promise<UploadResponse> {
+  const response = await client.post<UploadResponse>(
+    '/files/generate-upload-url',
+    { content_type: contentType },
+    { signal }
+  );
+
+  return {
+    upload_url: response.data.upload_url,
+    public_url: response.data.public_url,
+  };
+}
+
+/**
+ * Upload data to Higgsfield CDN.
+ * The body is streamed, so files are never held in memory as a whole,
+ * and failed transfers are retried with backoff.
+ * @returns The public URL of the uploaded file
+ */
+export async function uploadFile(
+  client: AxiosInstance,
+  config: Config,
+  source: UploadSource,
+  options: UploadOptions = {}
+): Promise<string> {
+  throwIfAborted(options.signal);
+
+  const body = await resolveUploadBody(source, options);
+  try {
+    checkSize(body.size, options.maxSize);
+
+    const { upload_url, public_url } = await getUploadLink(
+      client,
+      body.contentType,
+      options.signal
+    );
+
+    await retryWithBackoff(
+      async () => {
+        try {
+          // Presigned URL - sent without the API credentials, through the client's adapter
+          await axios.put(upload_url, trackProgress(body.open(), body.size, options.onProgress), {
+            headers: { 'Content-Type': body.contentType, 'Content-Length': String(body.size) },
+            maxBodyLength: Infinity,
+            maxContentLength: Infinity,
+            signal: options.signal,
+            adapter: client.defaults.adapter,
+          });
+        } catch (error) {
+          if (axios.isCancel(error)) {
+            throw new AbortError();
+          }
+          throw error;
+        }
+      },
+      resolveRetryConfig(config, options.retry, options.signal)
+    );
+
+    return public_url;
+  } finally {
+    await body.cleanup();
+  }
+}
@@ -0,0 +1,126 @@
+import { NsfwContentError } from '../errors';
+import { V2Response, V2ResponseBase } from './types';
+
+export interface BatchRunOptions {
+  concurrency?: number; // Requests in flight at once (default: 5)
+  stopOnError?: boolean; // Skip items not yet started after the first failure
+  signal?: AbortSignal; // Skip items not yet started once aborted
+}
+
+export type BatchOutcome = 'completed' | 'failed' | 'nsfw' | 'skipped';
+
+export interface BatchItemResult<TInput = Record<string, any>, TResponse = V2Response> {
+  index: number; // Position of the item in `inputs`
+  input: TInput;
+  outcome: BatchOutcome;
+  response?: TResponse; // Final response, when the request reached the API
+  error?: Error; // Error thrown while submitting or polling
+}
+
+export interface BatchSummary<TInput = Record<string, any>, TResponse = V2Response> {
+  total: number;
+  completed: number;
+  failed: number;
+  nsfw: number;
+  skipped: number;
+  results: Array<BatchItemResult<TInput, TResponse>>; // In input order
+}
+
+/**
+ * A running batch. Iterate it to receive item results as they finish,
+ * or await `summary` for all of them at once.
+ */
+export interface Batch<TInput = Record<string, any>, TResponse = V2Response>
+  extends AsyncIterable<BatchItemResult<TInput, TResponse>> {
+  summary: Promise<BatchSummary<TInput, TResponse>>;
+}
+
+const DEFAULT_CONCURRENCY = 5;
+
+function outcomeOf(response: V2ResponseBase): BatchOutcome {
+  if (response.status === 'completed') {
+    return 'completed';
+  }
+  return response.status === 'nsfw' ? 'nsfw' : 'failed';
+}
+
+/**
+ * Runs `run` for every input with at most `concurrency` calls in flight.
+ * Items never reject the batch - errors are reported on their result.
+ * Work starts immediately, whether or not the batch is iterated.
+ */
+export function runBatch<TInput, TResponse extends V2ResponseBase>(
+  inputs: TInput[],
+  run: (input: TInput) => Promise<TResponse>,
+  options: BatchRunOptions = {}
+): Batch<TInput, TResponse> {
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new RangeError('concurrency must be a positive integer');
+  }
+
+  const results: Array<BatchItemResult<TInput, TResponse>> = new Array(inputs.length);
+  const finished: Array<BatchItemResult<TInput, TResponse>> = []; // In completion order
+  const waiters: Array<() => void> = [];
+  let nextIndex = 0;
+  let stopped = false;
+
+  function report(result: BatchItemResult<TInput, TResponse>): void {
+    results[result.index] = result;
+    finished.push(result);
+    waiters.splice(0).forEach((wake) => wake());
+  }
+
+  async function worker(): Promise<void> {
+    while (nextIndex < inputs.length) {
+      const index = nextIndex++;
+      const input = inputs[index];
+
+      if (stopped || options.signal?.aborted) {
+        report({ index, input, outcome: 'skipped' });
+        continue;
+      }
+
+      let result: BatchItemResult<TInput, TResponse>;
+      try {
+        const response = await run(input);
+        result = { index, input, outcome: outcomeOf(response), response };
+      } catch (error) {
+        // With throwOnFailure, flagged content rejects instead of resolving with status nsfw
+        const outcome = error instanceof NsfwContentError ? 'nsfw' : 'failed';
+        result = { index, input, outcome, error: error as Error };
+      }
+
+      if (result.outcome === 'failed' && options.stopOnError) {
+        stopped = true;
+      }
+      report(result);
+    }
+  }
+
+  const workers = Array.from({ length: Math.min(concurrency, inputs.length) }, () => worker());
+
+  const summary = Promise.all(workers).then(() => {
+    const count = (outcome: BatchOutcome) => results.filter((r) => r.outcome === outcome).length;
+    return {
+      total: inputs.length,
+      completed: count('completed'),
+      failed: count('failed'),
+      nsfw: count('nsfw'),
+      skipped: count('skipped'),
+      results,
+    };
+  });
+
+  return {
+    summary,
+    async *[Symbol.asyncIterator]() {
+      for (let yielded = 0; yielded < inputs.length; yielded++) {
+        while (finished.length <= yielded) {
+          await new Promise<void>((resolve) => waiters.push(resolve));
+        }
+        yield finished[yielded];
+      }
+    },
+  };
+}
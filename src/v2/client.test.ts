@@ -1,13 +1,52 @@
-import { createHiggsfieldClient, configure, reset } from './client';
-import { BrowserNotSupportedError, BadInputError } from '../errors';
+import axios, { AxiosAdapter, AxiosError, InternalAxiosRequestConfig } from 'axios';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { createHiggsfieldClient, configure, reset, higgsfield } from './client';
+import {
+  AbortError,
+  BrowserNotSupportedError,
+  BadInputError,
+  GenerationFailedError,
+  NsfwContentError,
+  RateLimitError,
+  TimeoutError,
+  ValidationError,
+} from '../errors';
+
+type Route = (config: InternalAxiosRequestConfig) => { status?: number; data: any };
+
+function mockAdapter(route: Route): { adapter: AxiosAdapter; calls: InternalAxiosRequestConfig[] } {
+  const calls: InternalAxiosRequestConfig[] = [];
+  const adapter: AxiosAdapter = async (config) => {
+    calls.push(config);
+    const { status = 200, data } = route(config);
+    const response = { data, status, statusText: String(status), headers: {}, config };
+    if (status >= 400) {
+      throw new AxiosError(
+        `Request failed with status code ${status}`,
+        'ERR_BAD_REQUEST',
+        config,
+        undefined,
+        response
+      );
+    }
+    return response;
+  };
+  return { adapter, calls };
+}
 
 describe('V2 Client', () => {
+  const originalAdapter = axios.defaults.adapter;
+
   beforeEach(() => {
     reset();
   });
 
   afterEach(() => {
     reset();
+    axios.defaults.adapter = originalAdapter;
   });
 
   describe('Configuration', () => {
@@ -38,6 +77,50 @@ describe('V2 Client', () => {
       }).toThrow(BadInputError);
     });
 
+    it('should keep credentials separate for each client', async () => {
+      const { adapter, calls } = mockAdapter(() => ({ data: {} }));
+      axios.defaults.adapter = adapter;
+
+      const first = createHiggsfieldClient({ credentials: 'first-key:first-secret' });
+      const second = createHiggsfieldClient({ credentials: 'second-key:second-secret' });
+      await first.cancel('req-1');
+      await second.cancel('req-2');
+      await first.cancel('req-3');
+
+      expect(calls.map((call) => call.headers.Authorization)).toEqual([
+        'Key first-key:first-secret',
+        'Key second-key:second-secret',
+        'Key first-key:first-secret',
+      ]);
+    });
+
+    it('should configure the default client from the first configured instance', async () => {
+      const { adapter, calls } = mockAdapter(() => ({ data: {} }));
+      axios.defaults.adapter = adapter;
+
+      const first = createHiggsfieldClient({ credentials: 'first-key:first-secret' });
+      createHiggsfieldClient({ credentials: 'second-key:second-secret' });
+      await higgsfield.cancel('req-1');
+      configure({ credentials: 'global-key:global-secret' });
+      await first.cancel('req-2');
+
+      expect(calls.map((call) => call.headers.Authorization)).toEqual([
+        'Key first-key:first-secret',
+        'Key first-key:first-secret',
+      ]);
+    });
+
+    it('should use global configuration for the default client', async () => {
+      const { adapter, calls } = mockAdapter(() => ({ data: {} }));
+      axios.defaults.adapter = adapter;
+
+      createHiggsfieldClient({ credentials: 'instance-key:instance-secret' });
+      configure({ credentials: 'global-key:global-secret' });
+      await higgsfield.cancel('req-1');
+
+      expect(calls[0].headers.Authorization).toBe('Key global-key:global-secret');
+    });
+
     it('should configure client globally', () => {
       configure({
         credentials: 'global-key:global-secret',
@@ -64,5 +147,726 @@ describe('V2 Client', () => {
       (globalThis as any).window = originalWindow;
     });
   });
-});
 
+  describe('Cancel', () => {
+    it('should post to the cancel endpoint', async () => {
+      const { adapter, calls } = mockAdapter(() => ({ data: {} }));
+      axios.defaults.adapter = adapter;
+
+      const client = createHiggsfieldClient({ credentials: 'test-key:test-secret' });
+      await client.cancel('req-1');
+
+      expect(calls).toHaveLength(1);
+      expect(calls[0].method).toBe('post');
+      expect(calls[0].url).toBe('/requests/req-1/cancel');
+    });
+
+    it('should stop polling on canceled status', async () => {
+      const { adapter } = mockAdapter((config) =>
+        config.method === 'post'
+          ? { data: { status: 'queued', request_id: 'req-1' } }
+          : { data: { status: 'canceled', request_id: 'req-1' } }
+      );
+      axios.defaults.adapter = adapter;
+
+      const client = createHiggsfieldClient({ credentials: 'test-key:test-secret' });
+      const response = await client.subscribe('nano-banana-pro', { input: { prompt: 'Test' } });
+
+      expect(response.status).toBe('canceled');
+    });
+
+    it('should cancel through cancel_url when polling times out with cancelOnTimeout', async () => {
+      const { adapter, calls } = mockAdapter(() => ({
+        data: {
+          status: 'queued',
+          request_id: 'req-1',
+          cancel_url: 'https://queue.test/requests/req-1/cancel',
+        },
+      }));
+      axios.defaults.adapter = adapter;
+
+      const client = createHiggsfieldClient({
+        credentials: 'test-key:test-secret',
+        pollInterval: 1,
+        maxPollTime: 5,
+      });
+
+      await expect(
+        client.subscribe('nano-banana-pro', {
+          input: { prompt: 'Test' },
+          cancelOnTimeout: true,
+        })
+      ).rejects.toThrow(TimeoutError);
+      expect(calls[calls.length - 1]).toMatchObject({
+        method: 'post',
+        url: 'https://queue.test/requests/req-1/cancel',
+      });
+    });
+  });
+
+  describe('Queue', () => {
+    it('should submit without polling', async () => {
+      const { adapter, calls } = mockAdapter(() => ({
+        data: { status: 'queued', request_id: 'req-1' },
+      }));
+      axios.defaults.adapter = adapter;
+
+      const client = createHiggsfieldClient({ credentials: 'test-key:test-secret' });
+      const response = await client.queue.submit('nano-banana-pro', { input: { prompt: 'Test' } });
+
+      expect(response.request_id).toBe('req-1');
+      expect(calls).toHaveLength(1);
+      expect(calls[0].url).toBe('/nano-banana-pro');
+    });
+
+    it('should fetch status and wait for result by request id', async () => {
+      const statuses = ['queued', 'in_progress', 'completed'];
+      const { adapter, calls } = mockAdapter(() => ({
+        data: { status: statuses.shift(), request_id: 'req-1' },
+      }));
+      axios.defaults.adapter = adapter;
+
+      const client = createHiggsfieldClient({
+        credentials: 'test-key:test-secret',
+        pollInterval: 1,
+      });
+
+      const status = await client.queue.status('req-1');
+      expect(status.status).toBe('queued');
+
+      const result = await client.queue.result('req-1');
+      expect(result.status).toBe('completed');
+      expect(calls.every((call) => call.url === '/requests/req-1/status')).toBe(true);
+    });
+  });
+
+  describe('Abort', () => {
+    it('should reject with AbortError and cancel the request when cancelOnAbort is set', async () => {
+      const controller = new AbortController();
+      const { adapter, calls } = mockAdapter((config) => {
+        if (config.url?.endsWith('/status')) {
+          controller.abort();
+        }
+        return { data: { status: 'queued', request_id: 'req-1' } };
+      });
+      axios.defaults.adapter = adapter;
+
+      const client = createHiggsfieldClient({
+        credentials: 'test-key:test-secret',
+        pollInterval: 1000,
+      });
+
+      await expect(
+        client.subscribe('nano-banana-pro', {
+          input: { prompt: 'Test' },
+          signal: controller.signal,
+          cancelOnAbort: true,
+        })
+      ).rejects.toThrow(AbortError);
+      expect(calls[calls.length - 1].url).toBe('/requests/req-1/cancel');
+    });
+
+    it('should not submit when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const { adapter, calls } = mockAdapter(() => ({ data: {} }));
+      axios.defaults.adapter = adapter;
+
+      const client = createHiggsfieldClient({ credentials: 'test-key:test-secret' });
+
+      await expect(
+        client.subscribe('nano-banana-pro', {
+          input: { prompt: 'Test' },
+          signal: controller.signal,
+        })
+      ).rejects.toThrow(AbortError);
+      expect(calls).toHaveLength(0);
+    });
+  });
+
+  describe('Status updates', () => {
+    const statusSequence = () => {
+      const statuses = ['queued', 'queued', 'in_progress', 'in_progress', 'completed'];
+      return mockAdapter((config) =>
+        config.method === 'post'
+          ? { data: { status: 'queued', request_id: 'req-1' } }
+          : { data: { status: statuses.shift(), request_id: 'req-1' } }
+      );
+    };
+
+    it('should call onQueueUpdate once per status change', async () => {
+      axios.defaults.adapter = statusSequence().adapter;
+
+      const client = createHiggsfieldClient({
+        credentials: 'test-key:test-secret',
+        pollInterval: 1,
+      });
+      const updates: string[] = [];
+
+      await client.subscribe('nano-banana-pro', {
+        input: { prompt: 'Test' },
+        onQueueUpdate: (status) => updates.push(status.status),
+      });
+
+      expect(updates).toEqual(['queued', 'in_progress', 'completed']);
+    });
+
+    it('should stream status changes for a request', async () => {
+      axios.defaults.adapter = statusSequence().adapter;
+
+      const client = createHiggsfieldClient({
+        credentials: 'test-key:test-secret',
+        pollInterval: 1,
+      });
+      const updates: string[] = [];
+
+      for await (const status of client.stream('req-1')) {
+        updates.push(status.status);
+      }
+
+      expect(updates).toEqual(['queued', 'in_progress', 'completed']);
+    });
+  });
+
+  describe('Typed endpoints', () => {
+    it('should check inputs and type outputs of built-in endpoints', async () => {
+      const { adapter } = mockAdapter(() => ({
+        data: { status: 'completed', request_id: 'req-1', images: [{ url: 'https://image' }] },
+      }));
+      axios.defaults.adapter = adapter;
+
+      const client = createHiggsfieldClient({ credentials: 'test-key:test-secret' });
+      const input = {
+        prompt: 'Test',
+        width_and_height: '1536x1536',
+        quality: '1080p',
+        batch_size: 1,
+      } as const;
+
+      const response = await client.subscribe('/v1/text2image/soul', { input });
+      expect(response.images?.[0].url).toBe('https://image');
+      // @ts-expect-error - Soul returns images only
+      expect(response.video).toBeUndefined();
+
+      await client.subscribe('/v1/text2image/soul', {
+        // @ts-expect-error - typo in width_and_height
+        input: { ...input, width_and_heigth: '1536x1536' },
+      });
+
+      await client.subscribe('/v1/text2image/soul', {
+        // @ts-expect-error - batch_size must be 1 or 4
+        input: { ...input, batch_size: 2 },
+      });
+
+      // Unknown endpoints accept any input
+      await client.subscribe('nano-banana-pro', { input: { prompt: 'Test', anything: true } });
+    });
+
+    it('should narrow responses by status', async () => {
+      const { adapter } = mockAdapter(() => ({
+        data: { status: 'failed', request_id: 'req-1', error: 'Face not detected' },
+      }));
+      axios.defaults.adapter = adapter;
+
+      const client = createHiggsfieldClient({ credentials: 'test-key:test-secret' });
+      const response = await client.queue.submit('/v1/image2video/dop', {
+        input: {
+          model: 'dop-turbo',
+          prompt: 'Test',
+          input_images: [{ type: 'image_url', image_url: 'https://image' }],
+        },
+      });
+
+      if (response.status === 'completed') {
+        // Completed responses always have their outputs
+        const url: string = response.video.url;
+        // @ts-expect-error - only failed and nsfw responses have an error
+        expect(response.error).toBeUndefined();
+        expect(url).toBeDefined();
+      } else if (response.status === 'failed' || response.status === 'nsfw') {
+        expect(response.error).toBe('Face not detected');
+      }
+      // @ts-expect-error - outputs may be missing until the request completed
+      const video: { url: string } = response.video;
+      expect(video).toBeUndefined();
+    });
+  });
+
+  describe('Batch', () => {
+    const batchAdapter = () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const adapter: AxiosAdapter = async (config) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+
+        const { prompt } = JSON.parse(config.data);
+        if (prompt === 'bad') {
+          throw new AxiosError('Bad request', 'ERR_BAD_REQUEST', config, undefined, {
+            data: { detail: 'Invalid prompt' },
+            status: 400,
+            statusText: '400',
+            headers: {},
+            config,
+          });
+        }
+        const status = prompt === 'nsfw' ? 'nsfw' : 'completed';
+        return {
+          data: { status, request_id: `req-${prompt}` },
+          status: 200,
+          statusText: '200',
+          headers: {},
+          config,
+        };
+      };
+      return { adapter, maxInFlight: () => maxInFlight };
+    };
+
+    it('should limit concurrency and report every item without rejecting', async () => {
+      const { adapter, maxInFlight } = batchAdapter();
+      axios.defaults.adapter = adapter;
+
+      const client = createHiggsfieldClient({ credentials: 'test-key:test-secret', maxRetries: 0 });
+      const prompts = ['a', 'bad', 'nsfw', 'b', 'c'];
+      const batch = client.batch(
+        'nano-banana-pro',
+        prompts.map((prompt) => ({ prompt })),
+        { concurrency: 2 }
+      );
+
+      const streamed: number[] = [];
+      for await (const item of batch) {
+        streamed.push(item.index);
+      }
+      const summary = await batch.summary;
+
+      expect(streamed.sort()).toEqual([0, 1, 2, 3, 4]);
+      expect(maxInFlight()).toBe(2);
+      expect(summary).toMatchObject({ total: 5, completed: 3, failed: 1, nsfw: 1, skipped: 0 });
+      expect(summary.results[1].error).toBeInstanceOf(BadInputError);
+      expect(summary.results[4].response?.request_id).toBe('req-c');
+    });
+
+    it('should skip remaining items after a failure with stopOnError', async () => {
+      axios.defaults.adapter = batchAdapter().adapter;
+
+      const client = createHiggsfieldClient({ credentials: 'test-key:test-secret', maxRetries: 0 });
+      const batch = client.batch(
+        'nano-banana-pro',
+        ['bad', 'a', 'b'].map((prompt) => ({ prompt })),
+        { concurrency: 1, stopOnError: true }
+      );
+
+      const summary = await batch.summary;
+      expect(summary.results.map((item) => item.outcome)).toEqual(['failed', 'skipped', 'skipped']);
+    });
+  });
+
+  describe('Rate limiting', () => {
+    it('should map 429 to RateLimitError and retry after the given delay', async () => {
+      let attempts = 0;
+      const adapter: AxiosAdapter = async (config) => {
+        attempts++;
+        if (attempts === 1) {
+          throw new AxiosError('Too many requests', 'ERR_BAD_REQUEST', config, undefined, {
+            data: { detail: 'Slow down' },
+            status: 429,
+            statusText: '429',
+            headers: { 'retry-after': '0.01' },
+            config,
+          });
+        }
+        return {
+          data: { status: 'queued', request_id: 'req-1' },
+          status: 200,
+          statusText: '200',
+          headers: {},
+          config,
+        };
+      };
+      axios.defaults.adapter = adapter;
+
+      const client = createHiggsfieldClient({
+        credentials: 'test-key:test-secret',
+        retryMaxBackoff: 60000,
+      });
+      const startTime = Date.now();
+      const response = await client.queue.submit('nano-banana-pro', { input: { prompt: 'Test' } });
+
+      expect(response.request_id).toBe('req-1');
+      expect(attempts).toBe(2);
+      // Retry-After replaces the exponential backoff, which would wait at least a second
+      expect(Date.now() - startTime).toBeLessThan(1000);
+
+      const noRetry = createHiggsfieldClient({
+        credentials: 'test-key:test-secret',
+        maxRetries: 0,
+      });
+      attempts = 0;
+      const error = await noRetry.cancel('req-1').catch((e) => e);
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.retryAfter).toBe(10);
+    });
+
+    it('should throttle requests with a shared token bucket', async () => {
+      const { adapter, calls } = mockAdapter(() => ({
+        data: { status: 'queued', request_id: 'req-1' },
+      }));
+      axios.defaults.adapter = adapter;
+
+      const client = createHiggsfieldClient({
+        credentials: 'test-key:test-secret',
+        rateLimit: { requestsPerSecond: 20, burst: 1 },
+      });
+      const startTime = Date.now();
+      await Promise.all([
+        client.queue.submit('nano-banana-pro', { input: { prompt: 'Test' } }),
+        client.queue.status('req-1'),
+        client.queue.status('req-1'),
+      ]);
+
+      expect(calls).toHaveLength(3);
+      expect(Date.now() - startTime).toBeGreaterThanOrEqual(90);
+    });
+  });
+
+  describe('Retries', () => {
+    it('should retry 5xx responses with per-call settings and keep polling through them', async () => {
+      const responses = [503, 200, 502, 200];
+      const adapter: AxiosAdapter = async (config) => {
+        const status = responses.shift() ?? 200;
+        if (status >= 500) {
+          throw new AxiosError('Server error', 'ERR_BAD_RESPONSE', config, undefined, {
+            data: {},
+            status,
+            statusText: String(status),
+            headers: {},
+            config,
+          });
+        }
+        const data =
+          config.method === 'post'
+            ? { status: 'queued', request_id: 'req-1' }
+            : { status: 'completed', request_id: 'req-1' };
+        return { data, status, statusText: String(status), headers: {}, config };
+      };
+      axios.defaults.adapter = adapter;
+
+      const client = createHiggsfieldClient({
+        credentials: 'test-key:test-secret',
+        pollInterval: 1,
+      });
+      const onRetry = jest.fn();
+      const response = await client.subscribe('nano-banana-pro', {
+        input: { prompt: 'Test' },
+        retry: { retryStrategy: 'fixed', retryBackoff: 1, onRetry },
+      });
+
+      expect(response.status).toBe('completed');
+      expect(onRetry).toHaveBeenCalledTimes(1);
+      expect(onRetry.mock.calls[0][0]).toMatchObject({ attempt: 1, delay: 1 });
+      expect(responses).toHaveLength(0);
+    });
+
+    it('should retry submissions that timed out with the same idempotency key', async () => {
+      const keys: string[] = [];
+      axios.defaults.adapter = async (config) => {
+        keys.push(config.headers['Idempotency-Key'] as string);
+        if (keys.length === 1) {
+          throw new AxiosError('timeout of 10ms exceeded', 'ECONNABORTED', config);
+        }
+        return {
+          data: { status: 'queued', request_id: 'req-1' },
+          status: 200,
+          statusText: '200',
+          headers: {},
+          config,
+        };
+      };
+
+      const client = createHiggsfieldClient({
+        credentials: 'test-key:test-secret',
+        retryStrategy: 'fixed',
+        retryBackoff: 1,
+      });
+      const response = await client.queue.submit('nano-banana-pro', { input: { prompt: 'Test' } });
+
+      expect(response.request_id).toBe('req-1');
+      expect(keys).toHaveLength(2);
+      expect(keys[1]).toBe(keys[0]);
+    });
+  });
+
+  describe('Idempotency', () => {
+    it('should send one key on every attempt of a submission', async () => {
+      const keys: string[] = [];
+      const adapter: AxiosAdapter = async (config) => {
+        keys.push(config.headers['Idempotency-Key'] as string);
+        if (keys.length === 1) {
+          throw new AxiosError('Server error', 'ERR_BAD_RESPONSE', config, undefined, {
+            data: {},
+            status: 503,
+            statusText: '503',
+            headers: {},
+            config,
+          });
+        }
+        return {
+          data: { status: 'queued', request_id: 'req-1' },
+          status: 200,
+          statusText: '200',
+          headers: {},
+          config,
+        };
+      };
+      axios.defaults.adapter = adapter;
+
+      const client = createHiggsfieldClient({
+        credentials: 'test-key:test-secret',
+        retryStrategy: 'fixed',
+        retryBackoff: 1,
+      });
+      const response = await client.queue.submit('nano-banana-pro', { input: { prompt: 'Test' } });
+      await client.queue.submit('nano-banana-pro', { input: { prompt: 'Test' } });
+
+      expect(keys).toHaveLength(3);
+      expect(keys[0]).toMatch(/^[0-9a-f-]{36}$/);
+      expect(keys[1]).toBe(keys[0]);
+      expect(keys[2]).not.toBe(keys[0]);
+      expect(response.idempotency_key).toBe(keys[0]);
+    });
+
+    it('should use the caller key and expose it on errors', async () => {
+      const { adapter, calls } = mockAdapter(() => ({ status: 400, data: { detail: 'Invalid' } }));
+      axios.defaults.adapter = adapter;
+
+      const client = createHiggsfieldClient({ credentials: 'test-key:test-secret' });
+      const error = await client
+        .subscribe('nano-banana-pro', { input: { prompt: 'Test' }, idempotencyKey: 'order-42' })
+        .catch((e) => e);
+
+      expect(calls[0].headers['Idempotency-Key']).toBe('order-42');
+      expect(error).toBeInstanceOf(BadInputError);
+      expect(error.idempotencyKey).toBe('order-42');
+    });
+  });
+
+  describe('throwOnFailure', () => {
+    const finalStatus = (status: string, extra: Record<string, any> = {}) =>
+      mockAdapter((config) =>
+        config.method === 'post'
+          ? { data: { status: 'queued', request_id: 'req-1' } }
+          : { data: { status, request_id: 'req-1', ...extra } }
+      ).adapter;
+
+    it('should resolve with the final status by default', async () => {
+      axios.defaults.adapter = finalStatus('failed');
+
+      const client = createHiggsfieldClient({ credentials: 'test-key:test-secret' });
+      const response = await client.subscribe('nano-banana-pro', { input: { prompt: 'Test' } });
+
+      expect(response.status).toBe('failed');
+    });
+
+    it('should reject failed generations with the request details', async () => {
+      axios.defaults.adapter = finalStatus('failed', { error: 'Face not detected' });
+
+      const client = createHiggsfieldClient({ credentials: 'test-key:test-secret' });
+      const error = await client
+        .subscribe('nano-banana-pro', { input: { prompt: 'Test' }, throwOnFailure: true })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(GenerationFailedError);
+      expect(error).toMatchObject({
+        requestId: 'req-1',
+        endpoint: 'nano-banana-pro',
+        input: { prompt: 'Test' },
+        reason: 'Face not detected',
+        status: 'failed',
+      });
+      expect(error.message).toBe('Generation failed (request req-1): Face not detected');
+    });
+
+    it('should reject NSFW generations and report them as nsfw in batches', async () => {
+      axios.defaults.adapter = finalStatus('nsfw');
+
+      const client = createHiggsfieldClient({ credentials: 'test-key:test-secret' });
+      await expect(
+        client.subscribe('nano-banana-pro', { input: { prompt: 'Test' }, throwOnFailure: true })
+      ).rejects.toThrow(NsfwContentError);
+
+      const summary = await client.batch('nano-banana-pro', [{ prompt: 'Test' }], {
+        throwOnFailure: true,
+      }).summary;
+      expect(summary.nsfw).toBe(1);
+      expect(summary.results[0].error).toBeInstanceOf(NsfwContentError);
+    });
+  });
+
+  describe('Schema validation', () => {
+    const schemas = [
+      {
+        endpoint: 'nano-banana-pro',
+        name: 'Nano Banana Pro',
+        inputSchema: {
+          type: 'object' as const,
+          properties: {
+            prompt: { type: 'string' as const },
+            num_images: { type: 'integer' as const, default: 1 },
+          },
+          required: ['prompt'],
+        },
+      },
+    ];
+
+    it('should throw ValidationError before submitting invalid input', async () => {
+      const { adapter, calls } = mockAdapter(() => ({ data: {} }));
+      axios.defaults.adapter = adapter;
+
+      const client = createHiggsfieldClient({ credentials: 'test-key:test-secret', schemas });
+
+      await expect(
+        client.subscribe('/nano-banana-pro', { input: { prompt: 42 } })
+      ).rejects.toThrow(ValidationError);
+      expect(calls).toHaveLength(0);
+    });
+
+    it('should validate before uploading files in the input', async () => {
+      const { adapter, calls } = mockAdapter(() => ({ data: {} }));
+      axios.defaults.adapter = adapter;
+
+      const client = createHiggsfieldClient({ credentials: 'test-key:test-secret', schemas });
+
+      await expect(
+        client.subscribe('/nano-banana-pro', {
+          input: { prompt: Buffer.from('not a prompt'), num_images: 'two' },
+        })
+      ).rejects.toThrow(ValidationError);
+      expect(calls).toHaveLength(0);
+    });
+
+    it('should submit valid input with defaults applied', async () => {
+      const { adapter, calls } = mockAdapter(() => ({
+        data: { status: 'queued', request_id: 'req-1' },
+      }));
+      axios.defaults.adapter = adapter;
+
+      const client = createHiggsfieldClient({ credentials: 'test-key:test-secret', schemas });
+      await client.queue.submit('nano-banana-pro', { input: { prompt: 'Test' } });
+
+      expect(JSON.parse(calls[0].data)).toEqual({ prompt: 'Test', num_images: 1 });
+    });
+  });
+
+  describe('Storage', () => {
+    const storageRoutes = () => {
+      let uploads = 0;
+      return mockAdapter((config) => {
+        if (config.url === '/files/generate-upload-url') {
+          uploads += 1;
+          return {
+            data: { upload_url: `https://upload/${uploads}`, public_url: `https://cdn/${uploads}` },
+          };
+        }
+        if (config.method === 'put') {
+          return { data: '' };
+        }
+        return { data: { status: 'queued', request_id: 'req-1' } };
+      });
+    };
+
+    it('should upload data and return the public url', async () => {
+      const { adapter, calls } = storageRoutes();
+      axios.defaults.adapter = adapter;
+
+      const client = createHiggsfieldClient({ credentials: 'test-key:test-secret' });
+      const png = Buffer.from('89504e470d0a1a0a0000', 'hex');
+      const url = await client.storage.upload(png);
+
+      expect(url).toBe('https://cdn/1');
+      expect(JSON.parse(calls[0].data)).toEqual({ content_type: 'image/png' });
+      expect(calls[1].method).toBe('put');
+      expect(calls[1].url).toBe('https://upload/1');
+      expect(calls[1].headers.Authorization).toBeUndefined();
+    });
+
+    it('should upload local files found in subscribe input', async () => {
+      const { adapter, calls } = storageRoutes();
+      axios.defaults.adapter = adapter;
+
+      const client = createHiggsfieldClient({ credentials: 'test-key:test-secret' });
+      await client.subscribe('/v1/speak/higgsfield', {
+        input: {
+          input_image: { type: 'image_url', image_url: Buffer.from('image') },
+          input_audio: { type: 'audio_url', audio_url: new Blob(['audio'], { type: 'audio/wav' }) },
+          prompt: 'Test',
+          quality: 'mid',
+          duration: 5,
+        },
+        withPolling: false,
+      });
+
+      const submitted = JSON.parse(calls[calls.length - 1].data);
+      expect(submitted.input_image.image_url).toBe('https://cdn/1');
+      expect(submitted.input_audio.audio_url).toBe('https://cdn/2');
+    });
+
+    it('should stream files with progress and retry failed transfers', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hf-upload-'));
+      const file = path.join(dir, 'speech.wav');
+      fs.writeFileSync(file, Buffer.alloc(3 * 1024 * 1024, 1));
+
+      let attempts = 0;
+      const received: number[] = [];
+      const adapter: AxiosAdapter = async (config) => {
+        if (config.method === 'put') {
+          attempts += 1;
+          const chunks: Buffer[] = [];
+          for await (const chunk of config.data as Readable) {
+            chunks.push(chunk);
+          }
+          received.push(Buffer.concat(chunks).length);
+          if (attempts === 1) {
+            throw new AxiosError('socket hang up', 'ECONNRESET', config);
+          }
+        }
+        const data = { upload_url: 'https://upload/1', public_url: 'https://cdn/1' };
+        return { data, status: 200, statusText: 'OK', headers: {}, config };
+      };
+      axios.defaults.adapter = adapter;
+
+      try {
+        const client = createHiggsfieldClient({
+          credentials: 'test-key:test-secret',
+          retryBackoff: 1,
+          retryMaxBackoff: 1,
+        });
+        const progress: number[] = [];
+        const url = await client.storage.upload(fs.createReadStream(file), {
+          onProgress: ({ loaded }) => progress.push(loaded),
+        });
+
+        expect(url).toBe('https://cdn/1');
+        expect(attempts).toBe(2);
+        expect(received).toEqual([3 * 1024 * 1024, 3 * 1024 * 1024]);
+        expect(progress[progress.length - 1]).toBe(3 * 1024 * 1024);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject uploads over maxSize', async () => {
+      const { adapter, calls } = storageRoutes();
+      axios.defaults.adapter = adapter;
+
+      const client = createHiggsfieldClient({ credentials: 'test-key:test-secret' });
+
+      await expect(
+        client.storage.upload(Readable.from([Buffer.alloc(10), Buffer.alloc(10)]), { maxSize: 15 })
+      ).rejects.toThrow(BadInputError);
+      expect(calls).toHaveLength(0);
+    });
+  });
+});
@@ -1,46 +1,143 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
-import { Config, ClientConfig } from '../config';
-import { fetchCredentials, Credentials } from '../auth';
+import axios, { AxiosInstance } from 'axios';
+import { Config, ClientConfig, RetryOptions } from '../config';
+import { fetchCredentials, Credentials, OFFLINE_CREDENTIALS } from '../auth';
 import {
-  APIError,
-  AuthenticationError,
   BadInputError,
-  NotEnoughCreditsError,
   ValidationError,
   CredentialsMissedError,
   BrowserNotSupportedError,
   TimeoutError,
+  AbortError,
+  RateLimitError,
 } from '../errors';
-import { retryWithBackoff } from '../utils/retry';
-import { V2Response } from './types';
+import { PollOptions, UploadSource } from '../types';
+import { sleep, throwIfAborted } from '../utils/abort';
+import {
+  createIdempotencyKey,
+  IDEMPOTENCY_KEY_HEADER,
+  tagWithIdempotencyKey,
+} from '../utils/idempotency';
+import { clientAdapter, isOfflineConfig } from '../utils/cassette';
+import { RateLimiter } from '../utils/rate-limiter';
+import { mapRequestError } from '../utils/error-mapper';
+import { failureReason, generationError } from '../utils/generation-errors';
+import { pollRetryDelay, resolveRetryConfig, retryWithBackoff } from '../utils/retry';
+import { uploadFile, UploadOptions } from '../utils/upload';
+import { Batch, BatchRunOptions, runBatch } from './batch';
+import { validateInputAgainstSchema } from './schema-loader';
+import { SchemaRegistry } from './schema-registry';
+import { StorageClient, uploadInputFiles } from './storage';
+import {
+  EndpointOutput,
+  ModelSchema,
+  SubscribeInput,
+  V2RequestStatus,
+  V2Response,
+} from './types';
 
 export interface V2ClientConfig extends Omit<ClientConfig, 'apiKey' | 'apiSecret'> {
   credentials?: string; // Single field containing "KEY_ID:KEY_SECRET" format
   apiKey?: string; // Backward compatibility
   apiSecret?: string; // Backward compatibility
+  schemas?: ModelSchema[] | SchemaRegistry; // Validate input against these schemas before submitting
 }
 
-interface SubscribeOptions<TInput = any> {
+export interface SubscribeOptions<TInput = Record<string, any>> {
   input: TInput;
   webhook?: {
     url: string;
     secret: string;
   };
   withPolling?: boolean;
+  cancelOnTimeout?: boolean; // Cancel the server-side request if polling times out
+  signal?: AbortSignal;
+  cancelOnAbort?: boolean; // Cancel the server-side request when the signal is aborted
+  onQueueUpdate?: (status: V2Response) => void; // Called on every status change
+  autoUpload?: boolean; // Upload local files found in input before submitting (default: true)
+  retry?: RetryOptions; // Override the client's retry settings for this call
+  idempotencyKey?: string; // Sent on every attempt of this submission (default: random UUID)
+  throwOnFailure?: boolean; // Reject on failed, canceled or nsfw instead of resolving (default: false)
+}
+
+export type QueueSubmitOptions<TInput = Record<string, any>> = Omit<
+  SubscribeOptions<TInput>,
+  'withPolling' | 'cancelOnTimeout' | 'cancelOnAbort' | 'onQueueUpdate'
+>;
+
+export interface BatchOptions<TInput = Record<string, any>>
+  extends Omit<
+      SubscribeOptions<TInput>,
+      'input' | 'withPolling' | 'onQueueUpdate' | 'idempotencyKey'
+    >,
+    BatchRunOptions {}
+
+export interface QueueClient {
+  /**
+   * Submit a request without waiting for it to finish
+   */
+  submit<TEndpoint extends string>(
+    endpoint: TEndpoint,
+    options: QueueSubmitOptions<SubscribeInput<TEndpoint>>
+  ): Promise<V2Response<EndpointOutput<TEndpoint>>>;
+
+  /**
+   * Fetch the current status of a request
+   */
+  status(requestId: string, options?: PollOptions): Promise<V2Response>;
+
+  /**
+   * Wait for a request to reach a final status and return it
+   */
+  result(requestId: string, options?: PollOptions): Promise<V2Response>;
 }
 
 export interface HiggsfieldClient {
+  /**
+   * Submit a request and wait for it to finish.
+   * Built-in endpoints (see EndpointInputMap) have their input type checked.
+   */
   subscribe<TEndpoint extends string>(
     endpoint: TEndpoint,
-    options: SubscribeOptions<any>
-  ): Promise<V2Response>;
+    options: SubscribeOptions<SubscribeInput<TEndpoint>>
+  ): Promise<V2Response<EndpointOutput<TEndpoint>>>;
+
+  queue: QueueClient;
+
+  /**
+   * Run subscribe() for every input with limited concurrency.
+   * Results are streamed as items finish; a failed item never rejects the batch.
+   * @example
+   * const batch = higgsfield.batch('/v1/text2image/soul', inputs, { concurrency: 4 });
+   * for await (const item of batch) console.log(item.index, item.outcome);
+   * const { completed, failed, nsfw } = await batch.summary;
+   */
+  batch<TEndpoint extends string>(
+    endpoint: TEndpoint,
+    inputs: Array<SubscribeInput<TEndpoint>>,
+    options?: BatchOptions<SubscribeInput<TEndpoint>>
+  ): Batch<SubscribeInput<TEndpoint>, V2Response<EndpointOutput<TEndpoint>>>;
+
+  /**
+   * Poll a request, yielding its response once per observed status change
+   */
+  stream(requestId: string, options?: PollOptions): AsyncIterable<V2Response>;
+
+  cancel(requestId: string): Promise<void>;
+
+  storage: StorageClient;
 
   configure(config: V2ClientConfig): void;
 }
 
-let globalConfig: Config | undefined;
-let globalClient: AxiosInstance | undefined;
-let globalCredentials: Credentials | undefined;
+interface ClientState {
+  config?: Config;
+  client?: AxiosInstance;
+  credentials?: Credentials;
+  schemas?: SchemaRegistry;
+}
+
+// State behind the default `higgsfield` client and the module-level configure()
+const globalState: ClientState = {};
 
 function checkBrowserEnvironment(): void {
   // Check if we're in a browser environment
@@ -54,6 +151,7 @@ function initializeClient(config?: V2ClientConfig): {
   config: Config;
   client: AxiosInstance;
   credentials: Credentials;
+  schemas?: SchemaRegistry;
 } {
   // Check if running in browser - not allowed
   checkBrowserEnvironment();
@@ -80,6 +178,7 @@ function initializeClient(config?: V2ClientConfig): {
   // Create config without credentials fields for Config class
   const configForConfig = { ...config };
   delete (configForConfig as any).credentials;
+  delete configForConfig.schemas;
 
   const cfg = new Config(configForConfig);
 
@@ -95,12 +194,9 @@ function initializeClient(config?: V2ClientConfig): {
     try {
       creds = fetchCredentials();
     } catch (error) {
-      // If credentials not found, create empty credentials
-      // They will be set when config() is called
-      creds = {
-        apiKey: '',
-        apiSecret: '',
-      };
+      // Clients replaying a cassette or using their own adapter never send them;
+      // otherwise start with empty credentials, set when config() is called
+      creds = isOfflineConfig(cfg) ? OFFLINE_CREDENTIALS : { apiKey: '', apiSecret: '' };
     }
   }
 
@@ -134,202 +230,417 @@ function initializeClient(config?: V2ClientConfig): {
   const axiosClient = axios.create({
     baseURL: cfg.baseURL,
     timeout: cfg.timeout,
+    adapter: clientAdapter(cfg),
     headers,
   });
 
+  // Submissions, polls and uploads of this client share one token bucket
+  const rateLimiter = cfg.rateLimit ? new RateLimiter(cfg.rateLimit) : undefined;
+  if (rateLimiter) {
+    axiosClient.interceptors.request.use(async (request) => {
+      await rateLimiter.acquire(request.signal as AbortSignal | undefined);
+      return request;
+    });
+  }
+
   axiosClient.interceptors.response.use(
     (response) => {
       return response;
     },
-    (
-      error: AxiosError<{
-        detail?:
-          | string
-          | Array<{
-              type: string;
-              loc: string[];
-              msg: string;
-              input?: any;
-              ctx?: Record<string, any>;
-            }>;
-      }>
-    ) => {
-      if (error.response?.status === 401) {
-        throw new AuthenticationError('Invalid API credentials');
-      } else if (error.response?.status === 403) {
-        throw new NotEnoughCreditsError();
-      } else if (error.response?.status === 422) {
-        throw new ValidationError(error.response?.data?.detail);
-      } else if (error.response?.status === 400) {
-        throw new BadInputError(error.response?.data?.detail);
-      }
-      if (error.response) {
-        throw new APIError(error.message, error.response.status, error.response.data);
+    (error) => {
+      const mapped = mapRequestError(error);
+      if (mapped instanceof RateLimitError && mapped.retryAfter !== undefined) {
+        rateLimiter?.pause(mapped.retryAfter);
       }
-      throw error;
+      throw mapped;
     }
   );
 
-  return { config: cfg, client: axiosClient, credentials: creds };
+  const schemas = Array.isArray(config?.schemas)
+    ? new SchemaRegistry(config?.schemas)
+    : config?.schemas;
+
+  return { config: cfg, client: axiosClient, credentials: creds, schemas };
 }
 
-async function pollV2Request(
+function isTerminalStatus(status: V2RequestStatus): boolean {
+  return (
+    status === 'completed' ||
+    status === 'nsfw' ||
+    status === 'failed' ||
+    status === 'canceled'
+  );
+}
+
+/**
+ * Cancel through the `cancel_url` the API returned, or the standard path when only the id is known
+ */
+async function cancelV2Request(
+  client: AxiosInstance,
+  requestId: string,
+  cancelUrl?: string
+): Promise<void> {
+  await client.post(cancelUrl || `/requests/${requestId}/cancel`);
+}
+
+// Stands in for files in input while it is validated before uploading
+const UPLOAD_PLACEHOLDER_URL = 'https://cdn.higgsfield.ai/upload';
+
+function validateInput(schemas: SchemaRegistry | undefined, endpoint: string, input: any): any {
+  const schema = schemas?.get(endpoint);
+  if (!schema) {
+    return input;
+  }
+
+  const result = validateInputAgainstSchema(input, schema);
+  if (!result.valid) {
+    throw new ValidationError(result.details);
+  }
+  return result.value;
+}
+
+async function submitV2Request(
   client: AxiosInstance,
   config: Config,
-  requestId: string
+  endpoint: string,
+  options: QueueSubmitOptions<any>,
+  schemas?: SchemaRegistry
+): Promise<V2Response> {
+  const { webhook, signal, autoUpload = true, retry } = options;
+  const idempotencyKey = options.idempotencyKey ?? createIdempotencyKey();
+  let { input } = options;
+
+  // Format endpoint - ensure it starts with / if it's a full path
+  let formattedEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
+
+  try {
+    if (autoUpload) {
+      // Check the input before uploading anything, with files standing in as URLs
+      validateInput(
+        schemas,
+        endpoint,
+        await uploadInputFiles(input, async () => UPLOAD_PLACEHOLDER_URL)
+      );
+      input = await uploadInputFiles(input, (source) =>
+        uploadFile(client, config, source, { signal, retry })
+      );
+    }
+
+    // Build request body - send input directly (not wrapped in params)
+    const requestBody: any = { ...validateInput(schemas, endpoint, input) };
+
+    // Add webhook as query parameter if provided
+    if (webhook) {
+      const webhookParam = encodeURIComponent(webhook.url);
+      const separator = formattedEndpoint.includes('?') ? '&' : '?';
+      formattedEndpoint = `${formattedEndpoint}${separator}hf_webhook=${webhookParam}`;
+    }
+
+    // The same key on every attempt lets the API drop duplicates of a retried POST
+    const response = await retryWithBackoff(
+      () => {
+        return client.post<V2Response>(formattedEndpoint, requestBody, {
+          signal,
+          headers: { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey },
+        });
+      },
+      resolveRetryConfig(config, retry, signal)
+    );
+
+    return { ...response.data, idempotency_key: idempotencyKey };
+  } catch (error) {
+    throw tagWithIdempotencyKey(error, idempotencyKey);
+  }
+}
+
+async function fetchV2Status(
+  client: AxiosInstance,
+  requestId: string,
+  signal?: AbortSignal
 ): Promise<V2Response> {
+  const response = await client.get<V2Response>(`/requests/${requestId}/status`, { signal });
+  return response.data;
+}
+
+interface WatchOptions {
+  signal?: AbortSignal;
+  lastStatus?: V2RequestStatus; // Status already reported to the caller
+}
+
+/**
+ * Poll a request and yield its response every time the status changes
+ */
+async function* watchV2Request(
+  client: AxiosInstance,
+  config: Config,
+  requestId: string,
+  options: WatchOptions = {}
+): AsyncGenerator<V2Response> {
+  const { signal } = options;
   const startTime = Date.now();
-  const pollingUrl = `/requests/${requestId}/status`;
+  let lastStatus = options.lastStatus;
 
   while (true) {
+    throwIfAborted(signal);
+
     if (Date.now() - startTime > config.maxPollTime) {
       throw new TimeoutError(
         `Polling exceeded maximum time of ${config.maxPollTime}ms`
       );
     }
 
+    let v2Response: V2Response | undefined;
     try {
-      const response = await client.get<V2Response>(pollingUrl);
-      const v2Response = response.data;
+      v2Response = await fetchV2Status(client, requestId, signal);
+    } catch (error) {
+      await sleep(pollRetryDelay(error, config.pollInterval), signal);
+      continue;
+    }
 
-      // Check if polling should stop
-      if (
-        v2Response.status === 'completed' ||
-        v2Response.status === 'nsfw' ||
-        v2Response.status === 'failed'
-      ) {
-        return v2Response;
+    if (v2Response) {
+      const isTerminal = isTerminalStatus(v2Response.status);
+      if (v2Response.status !== lastStatus || isTerminal) {
+        lastStatus = v2Response.status;
+        yield v2Response;
       }
-    } catch (error) {
-      if (axios.isAxiosError(error) && error.response?.status && error.response.status >= 500) {
-        // Server error, continue polling
-      } else {
-        throw error;
+
+      // Check if polling should stop
+      if (isTerminal) {
+        return;
       }
     }
 
-    await new Promise((resolve) => setTimeout(resolve, config.pollInterval));
+    await sleep(config.pollInterval, signal);
   }
 }
 
-export function createHiggsfieldClient(
-  config?: V2ClientConfig,
-  _options?: {
-    autoLoadSchemas?: boolean; // Deprecated - kept for backward compatibility
-    loadSchemasOnInit?: boolean; // Deprecated - kept for backward compatibility
-  }
-): HiggsfieldClient {
-  // Store config for lazy initialization
-  // Only initialize if config is provided, otherwise wait for config() call or first use
-  if (config && (!globalConfig || !globalClient)) {
-    const { config: cfg, client, credentials } = initializeClient(config);
-    globalConfig = cfg;
-    globalClient = client;
-    globalCredentials = credentials;
+async function pollV2Request(
+  client: AxiosInstance,
+  config: Config,
+  requestId: string,
+  options: WatchOptions & { onUpdate?: (status: V2Response) => void } = {}
+): Promise<V2Response> {
+  let v2Response: V2Response | undefined;
+
+  for await (const update of watchV2Request(client, config, requestId, options)) {
+    v2Response = update;
+    options.onUpdate?.(update);
   }
 
-  return {
-    async subscribe<TEndpoint extends string>(
-      endpoint: TEndpoint,
-      options: SubscribeOptions<any>
-    ): Promise<V2Response> {
-      // Ensure client is initialized with credentials
-      if (
-        !globalClient ||
-        !globalCredentials ||
-        !globalCredentials.apiKey ||
-        !globalCredentials.apiSecret
-      ) {
+  // watchV2Request only returns after yielding a final status
+  return v2Response!;
+}
+
+function applyConfig(state: ClientState, config: V2ClientConfig): void {
+  const { config: cfg, client, credentials, schemas } = initializeClient(config);
+  state.config = cfg;
+  state.client = client;
+  state.credentials = credentials;
+  state.schemas = schemas;
+}
+
+function hasCredentials(state: ClientState): boolean {
+  return !!(state.client && state.credentials?.apiKey && state.credentials?.apiSecret);
+}
+
+function createClient(state: ClientState): HiggsfieldClient {
+  function ensureInitialized(): {
+    client: AxiosInstance;
+    config: Config;
+    schemas?: SchemaRegistry;
+  } {
+    // Ensure client is initialized with credentials
+    if (!hasCredentials(state)) {
+      if (state !== globalState && hasCredentials(globalState)) {
+        // Clients created without config start from the global configuration
+        Object.assign(state, globalState);
+      } else {
         try {
           const envCreds = fetchCredentials();
-          if (envCreds.apiKey && envCreds.apiSecret) {
-            const {
-              config: cfg,
-              client,
-              credentials,
-            } = initializeClient({ credentials: `${envCreds.apiKey}:${envCreds.apiSecret}` });
-            globalConfig = cfg;
-            globalClient = client;
-            globalCredentials = credentials;
-          } else {
+          if (!envCreds.apiKey || !envCreds.apiSecret) {
             throw new CredentialsMissedError();
           }
+          applyConfig(state, { credentials: `${envCreds.apiKey}:${envCreds.apiSecret}` });
         } catch (error) {
           throw new CredentialsMissedError();
         }
       }
+    }
 
-      if (!globalClient || !globalConfig) {
-        throw new CredentialsMissedError();
-      }
+    if (!state.client || !state.config) {
+      throw new CredentialsMissedError();
+    }
 
-      const { input, webhook, withPolling = true } = options;
+    return { client: state.client, config: state.config, schemas: state.schemas };
+  }
 
-      // Format endpoint - ensure it starts with / if it's a full path
-      let formattedEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
+  const higgsfieldClient: HiggsfieldClient = {
+    async subscribe<TEndpoint extends string>(
+      endpoint: TEndpoint,
+      options: SubscribeOptions<SubscribeInput<TEndpoint>>
+    ): Promise<V2Response<EndpointOutput<TEndpoint>>> {
+      const { client, config, schemas } = ensureInitialized();
+      const {
+        withPolling = true,
+        cancelOnTimeout = false,
+        signal,
+        cancelOnAbort = false,
+        onQueueUpdate,
+        throwOnFailure = false,
+      } = options;
+
+      let v2Response = await submitV2Request(client, config, endpoint, options, schemas);
+      const idempotencyKey = v2Response.idempotency_key!;
+      const withKey = (update: V2Response): V2Response => ({
+        ...update,
+        idempotency_key: idempotencyKey,
+      });
+      onQueueUpdate?.(v2Response);
 
-      // Build request body - send input directly (not wrapped in params)
-      const requestBody: any = { ...input };
+      // Poll for completion if requested
+      if (withPolling && v2Response.request_id && !isTerminalStatus(v2Response.status)) {
+        try {
+          const polled = await pollV2Request(client, config, v2Response.request_id, {
+            signal,
+            lastStatus: v2Response.status,
+            onUpdate: (update) => onQueueUpdate?.(withKey(update)),
+          });
+          v2Response = withKey(polled);
+        } catch (error) {
+          if (
+            (cancelOnTimeout && error instanceof TimeoutError) ||
+            (cancelOnAbort && error instanceof AbortError)
+          ) {
+            // Best effort - the request may already be running and no longer cancelable
+            await cancelV2Request(client, v2Response.request_id, v2Response.cancel_url).catch(
+              () => undefined
+            );
+          }
+          throw tagWithIdempotencyKey(error, idempotencyKey);
+        }
+      }
 
-      // Add webhook as query parameter if provided
-      if (webhook) {
-        const webhookParam = encodeURIComponent(webhook.url);
-        const separator = formattedEndpoint.includes('?') ? '&' : '?';
-        formattedEndpoint = `${formattedEndpoint}${separator}hf_webhook=${webhookParam}`;
+      const failure =
+        throwOnFailure &&
+        generationError(v2Response.status, {
+          requestId: v2Response.request_id,
+          endpoint,
+          input: options.input,
+          reason: failureReason(v2Response),
+          response: v2Response,
+        });
+      if (failure) {
+        throw tagWithIdempotencyKey(failure, idempotencyKey);
       }
 
-      const response = await retryWithBackoff(
-        () => {
-          return globalClient!.post<V2Response>(formattedEndpoint, requestBody);
-        },
-        {
-          maxRetries: globalConfig.maxRetries,
-          backoff: globalConfig.retryBackoff,
-          maxBackoff: globalConfig.retryMaxBackoff,
-        }
+      // The response shape for built-in endpoints is described by EndpointOutputMap
+      return v2Response as V2Response<EndpointOutput<TEndpoint>>;
+    },
+
+    batch<TEndpoint extends string>(
+      endpoint: TEndpoint,
+      inputs: Array<SubscribeInput<TEndpoint>>,
+      options: BatchOptions<SubscribeInput<TEndpoint>> = {}
+    ): Batch<SubscribeInput<TEndpoint>, V2Response<EndpointOutput<TEndpoint>>> {
+      const { concurrency, stopOnError, ...subscribeOptions } = options;
+      return runBatch(
+        inputs,
+        (input) => higgsfieldClient.subscribe(endpoint, { ...subscribeOptions, input }),
+        { concurrency, stopOnError, signal: options.signal }
       );
+    },
 
-      let v2Response: V2Response = response.data;
+    queue: {
+      async submit<TEndpoint extends string>(
+        endpoint: TEndpoint,
+        options: QueueSubmitOptions<SubscribeInput<TEndpoint>>
+      ): Promise<V2Response<EndpointOutput<TEndpoint>>> {
+        const { client, config, schemas } = ensureInitialized();
+        const response = await submitV2Request(client, config, endpoint, options, schemas);
+        return response as V2Response<EndpointOutput<TEndpoint>>;
+      },
+
+      async status(requestId: string, options?: PollOptions): Promise<V2Response> {
+        const { client } = ensureInitialized();
+        return fetchV2Status(client, requestId, options?.signal);
+      },
+
+      async result(requestId: string, options?: PollOptions): Promise<V2Response> {
+        const { client, config } = ensureInitialized();
+        return pollV2Request(client, config, requestId, { signal: options?.signal });
+      },
+    },
 
-      // Poll for completion if requested
-      if (withPolling && v2Response.request_id) {
-        v2Response = await pollV2Request(globalClient, globalConfig, v2Response.request_id);
-      }
+    async *stream(requestId: string, options?: PollOptions): AsyncIterable<V2Response> {
+      const { client, config } = ensureInitialized();
+      yield* watchV2Request(client, config, requestId, { signal: options?.signal });
+    },
+
+    async cancel(requestId: string): Promise<void> {
+      const { client } = ensureInitialized();
+      await cancelV2Request(client, requestId);
+    },
 
-      return v2Response;
+    storage: {
+      async upload(data: UploadSource, options?: UploadOptions): Promise<string> {
+        const { client, config } = ensureInitialized();
+        return uploadFile(client, config, data, options);
+      },
     },
 
     configure(config: V2ClientConfig): void {
       // Check if running in browser - not allowed
       checkBrowserEnvironment();
 
-      const { config: cfg, client, credentials } = initializeClient(config);
-      globalConfig = cfg;
-      globalClient = client;
-      globalCredentials = credentials;
+      applyConfig(state, config);
     },
   };
+
+  return higgsfieldClient;
 }
 
+/**
+ * Create an independent client instance.
+ * Each instance keeps its own configuration, credentials and HTTP client.
+ */
+export function createHiggsfieldClient(
+  config?: V2ClientConfig,
+  _options?: {
+    autoLoadSchemas?: boolean; // Deprecated - kept for backward compatibility
+    loadSchemasOnInit?: boolean; // Deprecated - kept for backward compatibility
+  }
+): HiggsfieldClient {
+  const state: ClientState = {};
+
+  // Only initialize if config is provided, otherwise wait for configure() call or first use
+  if (config) {
+    applyConfig(state, config);
+
+    // The first configured client also configures the default `higgsfield` client, as in
+    // earlier releases; a one-way copy, so the two stay independent afterwards
+    if (!hasCredentials(globalState) && hasCredentials(state)) {
+      Object.assign(globalState, state);
+    }
+  }
+
+  return createClient(state);
+}
+
+/**
+ * Default client, configured through the module-level configure()
+ */
+export const higgsfield: HiggsfieldClient = createClient(globalState);
+
 export function configure(config: V2ClientConfig): void {
   // Check if running in browser - not allowed
   checkBrowserEnvironment();
 
-  if (!globalConfig || !globalClient) {
-    const { config: cfg, client, credentials } = initializeClient(config);
-    globalConfig = cfg;
-    globalClient = client;
-    globalCredentials = credentials;
-  } else {
-    const { config: cfg, client, credentials } = initializeClient(config);
-    globalConfig = cfg;
-    globalClient = client;
-    globalCredentials = credentials;
-  }
+  applyConfig(globalState, config);
 }
 
 export function reset(): void {
-  globalConfig = undefined as any;
-  globalClient = undefined as any;
-  globalCredentials = undefined as any;
+  globalState.config = undefined;
+  globalState.client = undefined;
+  globalState.credentials = undefined;
+  globalState.schemas = undefined;
 }
@@ -0,0 +1,59 @@
+import { generateTypeDeclarations, schemaToType } from './codegen';
+import { ModelSchema } from './types';
+
+const nanoBanana: ModelSchema = {
+  endpoint: 'nano-banana-pro',
+  name: 'Nano Banana Pro',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      prompt: { type: 'string', description: 'Text prompt' },
+      num_images: { type: 'integer', minimum: 1, maximum: 4 },
+      aspect_ratio: { type: 'string', enum: ['1:1', '16:9'] },
+      input_images: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { type: { const: 'image_url' }, image_url: { type: 'string' } },
+          required: ['type', 'image_url'],
+        },
+      },
+      seed: { oneOf: [{ type: 'integer' }, { type: 'null' }] },
+    },
+    required: ['prompt'],
+  },
+};
+
+describe('Codegen', () => {
+  it('should convert JSON schema types', () => {
+    expect(schemaToType({ type: 'string', enum: ['a', 'b'] })).toBe('"a" | "b"');
+    expect(schemaToType({ type: ['string', 'null'] })).toBe('string | null');
+    expect(schemaToType({ type: 'array', items: { type: 'number' } })).toBe('Array<number>');
+    expect(schemaToType({})).toBe('unknown');
+  });
+
+  it('should generate an input interface and EndpointInputMap augmentation', () => {
+    const output = generateTypeDeclarations([nanoBanana]);
+
+    expect(output).toContain("import '@higgsfield/client/v2';");
+    expect(output).toContain('export interface NanoBananaProInput {');
+    expect(output).toContain('  /** Text prompt */\n  prompt: string;');
+    expect(output).toContain('  num_images?: number;');
+    expect(output).toContain('  aspect_ratio?: "1:1" | "16:9";');
+    expect(output).toContain('    type: "image_url";');
+    expect(output).toContain('  seed?: number | null;');
+    expect(output).toContain(
+      'declare module \'@higgsfield/client/v2\' {\n  interface EndpointInputMap {\n    "nano-banana-pro": NanoBananaProInput;'
+    );
+  });
+
+  it('should keep interface names unique', () => {
+    const output = generateTypeDeclarations(
+      [nanoBanana, { ...nanoBanana, endpoint: '/nano-banana-pro' }],
+      { moduleName: 'my-sdk' }
+    );
+
+    expect(output).toContain('export interface NanoBananaProInput2 {');
+    expect(output).toContain("declare module 'my-sdk' {");
+  });
+});
@@ -0,0 +1,151 @@
+import { SchemaRegistry } from './schema-registry';
+import { JsonSchema, ModelSchema } from './types';
+
+export interface CodegenOptions {
+  moduleName?: string; // Module whose EndpointInputMap is augmented
+}
+
+const DEFAULT_MODULE_NAME = '@higgsfield/client/v2';
+
+/**
+ * Generates TypeScript declarations from model schemas:
+ * one input interface per endpoint, plus an augmentation of EndpointInputMap
+ * so subscribe() type-checks input for those endpoints.
+ * @example
+ * fs.writeFileSync('higgsfield-endpoints.d.ts', generateTypeDeclarations(registry));
+ */
+export function generateTypeDeclarations(
+  schemas: ModelSchema[] | SchemaRegistry,
+  options: CodegenOptions = {}
+): string {
+  const moduleName = options.moduleName || DEFAULT_MODULE_NAME;
+  const list = Array.isArray(schemas) ? schemas : schemas.list();
+  const usedNames = new Set<string>();
+
+  const entries = list.map((schema) => {
+    const interfaceName = uniqueName(`${toPascalCase(schema.endpoint)}Input`, usedNames);
+    return { schema, interfaceName };
+  });
+
+  const lines: string[] = [
+    '// Generated by higgsfield-codegen. Do not edit by hand.',
+    `import '${moduleName}';`,
+    '',
+  ];
+
+  for (const { schema, interfaceName } of entries) {
+    lines.push(
+      ...docComment(schema.description ? `${schema.name}\n${schema.description}` : schema.name, '')
+    );
+    lines.push(`export interface ${interfaceName} ${objectType(schema.inputSchema, '')}`);
+    lines.push('');
+  }
+
+  lines.push(`declare module '${moduleName}' {`);
+  lines.push('  interface EndpointInputMap {');
+  for (const { schema, interfaceName } of entries) {
+    lines.push(`    ${JSON.stringify(schema.endpoint)}: ${interfaceName};`);
+  }
+  lines.push('  }');
+  lines.push('}');
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Converts a JSON schema into a TypeScript type expression
+ */
+export function schemaToType(schema: JsonSchema, indent: string = ''): string {
+  if (schema.const !== undefined) {
+    return JSON.stringify(schema.const);
+  }
+  if (schema.enum) {
+    return schema.enum.map((value) => JSON.stringify(value)).join(' | ');
+  }
+  if (schema.oneOf) {
+    return schema.oneOf.map((option) => wrapUnion(schemaToType(option, indent))).join(' | ');
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type.map((type) => schemaToType({ ...schema, type }, indent)).join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array':
+      return schema.items ? `Array<${schemaToType(schema.items, indent)}>` : 'unknown[]';
+    case 'object':
+      return objectType(schema, indent);
+    default:
+      return schema.properties ? objectType(schema, indent) : 'unknown';
+  }
+}
+
+function objectType(schema: JsonSchema, indent: string): string {
+  const properties = schema.properties || {};
+  const required = new Set(schema.required || []);
+  const inner = `${indent}  `;
+  const lines: string[] = ['{'];
+
+  for (const [key, prop] of Object.entries(properties)) {
+    lines.push(...docComment(prop.description, inner));
+    const optional = required.has(key) ? '' : '?';
+    lines.push(`${inner}${propertyKey(key)}${optional}: ${schemaToType(prop, inner)};`);
+  }
+
+  if (schema.additionalProperties) {
+    const valueType =
+      typeof schema.additionalProperties === 'object'
+        ? schemaToType(schema.additionalProperties, inner)
+        : 'unknown';
+    lines.push(`${inner}[key: string]: ${valueType};`);
+  }
+
+  lines.push(`${indent}}`);
+  return lines.length === 2 ? 'Record<string, unknown>' : lines.join('\n');
+}
+
+function docComment(text: string | undefined, indent: string): string[] {
+  if (!text) {
+    return [];
+  }
+  const lines = text.replace(/\*\//g, '*\\/').split('\n');
+  if (lines.length === 1) {
+    return [`${indent}/** ${lines[0]} */`];
+  }
+  return [`${indent}/**`, ...lines.map((line) => `${indent} * ${line}`), `${indent} */`];
+}
+
+function propertyKey(key: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function wrapUnion(type: string): string {
+  return type.includes(' | ') && !type.startsWith('{') ? `(${type})` : type;
+}
+
+function toPascalCase(endpoint: string): string {
+  const name = endpoint
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+  return /^[0-9]/.test(name) ? `Endpoint${name}` : name || 'Endpoint';
+}
+
+function uniqueName(name: string, used: Set<string>): string {
+  let candidate = name;
+  for (let i = 2; used.has(candidate); i++) {
+    candidate = `${name}${i}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
@@ -1,7 +1,32 @@
-import { createHiggsfieldClient, configure as configureClient, V2ClientConfig } from './client';
-
-// Create client instance
-export const higgsfield = createHiggsfieldClient(undefined);
+import {
+  higgsfield,
+  createHiggsfieldClient,
+  configure as configureClient,
+  V2ClientConfig,
+  HiggsfieldClient,
+  QueueClient,
+  BatchOptions,
+} from './client';
+import { Batch, BatchItemResult, BatchOutcome, BatchSummary } from './batch';
+import {
+  createTypeMapFromSchemas,
+  validateInputAgainstSchema,
+  SchemaValidationResult,
+} from './schema-loader';
+import { SchemaRegistry, SchemaSource } from './schema-registry';
+import { generateTypeDeclarations, schemaToType, CodegenOptions } from './codegen';
+import { StorageClient } from './storage';
+import { UploadOptions, UploadProgress } from '../utils/upload';
+import { RateLimitConfig, RetryOptions } from '../config';
+import { isRetryableError, RetryContext, RetryPredicate, RetryStrategy } from '../utils/retry';
+import {
+  Cassette,
+  CassetteInteraction,
+  CassetteMode,
+  CassetteOptions,
+  CassetteRequest,
+  CassetteResponse,
+} from '../utils/cassette';
 
 // Configuration function similar to fal.ai SDK
 export function config(config: V2ClientConfig): void {
@@ -10,11 +35,48 @@ export function config(config: V2ClientConfig): void {
 }
 
 // Export types and configure function
-export { configureClient as configure, V2ClientConfig, createHiggsfieldClient };
+export {
+  higgsfield,
+  configureClient as configure,
+  V2ClientConfig,
+  RateLimitConfig,
+  RetryOptions,
+  RetryContext,
+  RetryPredicate,
+  RetryStrategy,
+  isRetryableError,
+  Cassette,
+  CassetteInteraction,
+  CassetteMode,
+  CassetteOptions,
+  CassetteRequest,
+  CassetteResponse,
+  HiggsfieldClient,
+  QueueClient,
+  BatchOptions,
+  Batch,
+  BatchItemResult,
+  BatchOutcome,
+  BatchSummary,
+  createHiggsfieldClient,
+  createTypeMapFromSchemas,
+  validateInputAgainstSchema,
+  SchemaValidationResult,
+  SchemaRegistry,
+  SchemaSource,
+  generateTypeDeclarations,
+  schemaToType,
+  CodegenOptions,
+  StorageClient,
+  UploadOptions,
+  UploadProgress,
+};
 
 // Re-export types and helpers
 export * from '../types';
 export * from '../errors';
 export * from '../helpers';
+export * from '../webhooks';
+export * from '../download';
 export * from './types';  // Export v2-specific types including V2Response
 
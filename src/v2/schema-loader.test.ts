@@ -0,0 +1,112 @@
+import { validateInputAgainstSchema } from './schema-loader';
+import { ModelSchema } from './types';
+
+const schema: ModelSchema = {
+  endpoint: '/v1/text2image/soul',
+  name: 'Soul',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      prompt: { type: 'string', minLength: 1, maxLength: 20 },
+      quality: { type: 'string', enum: ['720p', '1080p'], default: '720p' },
+      batch_size: { type: 'integer', enum: [1, 4] },
+      style_strength: { type: 'number', minimum: 0, maximum: 1 },
+      image_reference: {
+        type: 'object',
+        properties: {
+          type: { const: 'image_url' },
+          image_url: { type: 'string' },
+        },
+        required: ['type', 'image_url'],
+      },
+      input_images: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: { image_url: { type: 'string' } },
+          required: ['image_url'],
+        },
+      },
+      seed: { oneOf: [{ type: 'integer', minimum: 0 }, { type: 'null' }] },
+    },
+    required: ['prompt', 'quality'],
+  },
+};
+
+describe('validateInputAgainstSchema', () => {
+  it('should accept valid input and apply defaults', () => {
+    const result = validateInputAgainstSchema({ prompt: 'Test', seed: null }, schema);
+
+    expect(result.valid).toBe(true);
+    expect(result.details).toEqual([]);
+    expect(result.value).toEqual({ prompt: 'Test', quality: '720p', seed: null });
+  });
+
+  it('should report errors in the API 422 format', () => {
+    const result = validateInputAgainstSchema({ batch_size: 2 }, schema);
+
+    expect(result.valid).toBe(false);
+    expect(result.details).toEqual([
+      { type: 'missing', loc: ['body', 'prompt'], msg: 'Field required', input: { batch_size: 2 } },
+      {
+        type: 'enum',
+        loc: ['body', 'batch_size'],
+        msg: 'Input should be 1 or 4',
+        input: 2,
+        ctx: { expected: '1 or 4' },
+      },
+    ]);
+    expect(result.errors).toEqual([
+      'body.prompt: Field required',
+      'body.batch_size: Input should be 1 or 4',
+    ]);
+  });
+
+  it('should check limits, nested objects, arrays and oneOf', () => {
+    const result = validateInputAgainstSchema(
+      {
+        prompt: '',
+        style_strength: 1.5,
+        image_reference: { type: 'url' },
+        input_images: [{ image_url: 'https://image' }, {}],
+        seed: -1,
+      },
+      schema
+    );
+
+    expect(result.details.map((detail) => [detail.loc.join('.'), detail.type])).toEqual([
+      ['body.prompt', 'string_too_short'],
+      ['body.style_strength', 'less_than_equal'],
+      ['body.image_reference.image_url', 'missing'],
+      ['body.image_reference.type', 'literal_error'],
+      ['body.input_images.1.image_url', 'missing'],
+      ['body.seed', 'union_no_match'],
+    ]);
+  });
+
+  it('should reject empty oneOf and check keywords next to oneOf', () => {
+    const unionSchema: ModelSchema = {
+      endpoint: '/v1/test',
+      name: 'Test',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          never: { oneOf: [] },
+          aspect_ratio: {
+            oneOf: [{ type: 'string' }, { type: 'integer' }],
+            enum: ['16:9', '9:16'],
+            default: '16:9',
+          },
+        },
+      },
+    };
+
+    expect(validateInputAgainstSchema({}, unionSchema).value).toEqual({ aspect_ratio: '16:9' });
+    const result = validateInputAgainstSchema({ never: 1, aspect_ratio: '4:3' }, unionSchema);
+    expect(result.details.map((detail) => [detail.loc.join('.'), detail.type])).toEqual([
+      ['body.never', 'union_no_match'],
+      ['body.aspect_ratio', 'enum'],
+    ]);
+  });
+});
@@ -1,4 +1,5 @@
-import { ModelSchema } from './types';
+import { ValidationErrorDetail } from '../errors';
+import { JsonSchema, JsonSchemaType, ModelSchema } from './types';
 
 /**
  * Converts backend JSON schema to TypeScript-compatible type map
@@ -43,59 +44,287 @@ export function createTypeMapFromSchemas(schemas: ModelSchema[]): Record<string,
   return typeMap;
 }
 
+export interface SchemaValidationResult {
+  valid: boolean;
+  errors: string[];
+  details: ValidationErrorDetail[]; // Same format as the API's 422 responses
+  value: any; // Input with schema defaults applied
+}
+
 /**
  * Validates input against a schema
+ * Supports type, required, enum, const, numeric and length limits, pattern,
+ * nested objects, arrays with items, oneOf and defaults.
  */
 export function validateInputAgainstSchema(
   input: any,
   schema: ModelSchema
-): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
-  
+): SchemaValidationResult {
   if (!schema.inputSchema || !schema.inputSchema.properties) {
-    return { valid: true, errors: [] };
+    return { valid: true, errors: [], details: [], value: input };
   }
-  
-  // Check required fields
-  if (schema.inputSchema.required) {
-    for (const requiredField of schema.inputSchema.required) {
-      if (!(requiredField in input)) {
-        errors.push(`Missing required field: ${requiredField}`);
-      }
+
+  const details: ValidationErrorDetail[] = [];
+  const value = validateValue(input, schema.inputSchema, ['body'], details);
+
+  return {
+    valid: details.length === 0,
+    errors: details.map((detail) => `${detail.loc.join('.')}: ${detail.msg}`),
+    details,
+    value,
+  };
+}
+
+/**
+ * Normalizes an endpoint for lookups - no leading slash and no query string
+ */
+export function normalizeEndpoint(endpoint: string): string {
+  return endpoint.replace(/^\/+/, '').split('?')[0];
+}
+
+const TYPE_ERRORS: Record<JsonSchemaType, { type: string; msg: string }> = {
+  string: { type: 'string_type', msg: 'Input should be a valid string' },
+  number: { type: 'float_type', msg: 'Input should be a valid number' },
+  integer: { type: 'int_type', msg: 'Input should be a valid integer' },
+  boolean: { type: 'bool_type', msg: 'Input should be a valid boolean' },
+  array: { type: 'list_type', msg: 'Input should be a valid list' },
+  object: { type: 'dict_type', msg: 'Input should be a valid dictionary or object' },
+  null: { type: 'none_required', msg: 'Input should be None' },
+};
+
+function matchesType(value: any, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'null':
+      return value === null;
+  }
+}
+
+function formatExpected(values: any[]): string {
+  const formatted = values.map((value) => JSON.stringify(value));
+  if (formatted.length <= 1) {
+    return formatted.join('');
+  }
+  return `${formatted.slice(0, -1).join(', ')} or ${formatted[formatted.length - 1]}`;
+}
+
+/**
+ * Validates a single value, pushing errors to `details`.
+ * Returns the value with defaults applied to nested objects.
+ */
+function validateValue(
+  value: any,
+  schema: JsonSchema,
+  loc: Array<string | number>,
+  details: ValidationErrorDetail[]
+): any {
+  const error = (type: string, msg: string, ctx?: Record<string, any>) => {
+    details.push({ type, loc, msg, input: value, ...(ctx ? { ctx } : {}) });
+  };
+
+  if (schema.oneOf) {
+    // Keywords next to oneOf apply on top of the matching branch
+    const { oneOf, ...siblings } = schema;
+    return validateValue(validateOneOf(value, oneOf, loc, details), siblings, loc, details);
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      const { type, msg } = TYPE_ERRORS[types[0]];
+      error(type, msg);
+      return value;
     }
   }
-  
-  // Validate field types
-  for (const [key, value] of Object.entries(input)) {
-    const prop = schema.inputSchema.properties[key];
-    if (!prop) {
-      // Unknown field - could be a warning instead of error
-      continue;
+
+  if (schema.const !== undefined && value !== schema.const) {
+    error('literal_error', `Input should be ${formatExpected([schema.const])}`, {
+      expected: JSON.stringify(schema.const),
+    });
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    error('enum', `Input should be ${formatExpected(schema.enum)}`, {
+      expected: formatExpected(schema.enum),
+    });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      error('greater_than_equal', `Input should be greater than or equal to ${schema.minimum}`, {
+        ge: schema.minimum,
+      });
     }
-    
-    if (prop.type === 'string' && typeof value !== 'string') {
-      errors.push(`Field ${key} must be a string`);
-    } else if (prop.type === 'number' && typeof value !== 'number') {
-      errors.push(`Field ${key} must be a number`);
-    } else if (prop.type === 'integer' && (!Number.isInteger(value) || typeof value !== 'number')) {
-      errors.push(`Field ${key} must be an integer`);
-    } else if (prop.type === 'boolean' && typeof value !== 'boolean') {
-      errors.push(`Field ${key} must be a boolean`);
-    } else if (prop.type === 'array' && !Array.isArray(value)) {
-      errors.push(`Field ${key} must be an array`);
-    } else if (prop.type === 'object' && (typeof value !== 'object' || Array.isArray(value))) {
-      errors.push(`Field ${key} must be an object`);
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      error('less_than_equal', `Input should be less than or equal to ${schema.maximum}`, {
+        le: schema.maximum,
+      });
     }
-    
-    // Validate enum values
-    if (prop.enum && !prop.enum.includes(value)) {
-      errors.push(`Field ${key} must be one of: ${prop.enum.join(', ')}`);
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      error('greater_than', `Input should be greater than ${schema.exclusiveMinimum}`, {
+        gt: schema.exclusiveMinimum,
+      });
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      error('less_than', `Input should be less than ${schema.exclusiveMaximum}`, {
+        lt: schema.exclusiveMaximum,
+      });
     }
   }
-  
-  return {
-    valid: errors.length === 0,
-    errors
-  };
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      error(
+        'string_too_short',
+        `String should have at least ${schema.minLength} characters`,
+        { min_length: schema.minLength }
+      );
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      error('string_too_long', `String should have at most ${schema.maxLength} characters`, {
+        max_length: schema.maxLength,
+      });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      error('string_pattern_mismatch', `String should match pattern '${schema.pattern}'`, {
+        pattern: schema.pattern,
+      });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      error('too_short', `List should have at least ${schema.minItems} items`, {
+        min_length: schema.minItems,
+      });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      error('too_long', `List should have at most ${schema.maxItems} items`, {
+        max_length: schema.maxItems,
+      });
+    }
+    if (schema.items) {
+      const items = schema.items;
+      return value.map((item, index) => validateValue(item, items, [...loc, index], details));
+    }
+  }
+
+  if (matchesType(value, 'object') && (schema.properties || schema.required)) {
+    return validateObject(value, schema, loc, details);
+  }
+
+  return value;
 }
 
+function validateObject(
+  value: Record<string, any>,
+  schema: JsonSchema,
+  loc: Array<string | number>,
+  details: ValidationErrorDetail[]
+): Record<string, any> {
+  const properties = schema.properties || {};
+  const result: Record<string, any> = { ...value };
+
+  // Fill in defaults for missing fields
+  for (const [key, prop] of Object.entries(properties)) {
+    if (result[key] === undefined && prop.default !== undefined) {
+      result[key] = prop.default;
+    }
+  }
+
+  for (const requiredField of schema.required || []) {
+    if (result[requiredField] === undefined) {
+      details.push({
+        type: 'missing',
+        loc: [...loc, requiredField],
+        msg: 'Field required',
+        input: value,
+      });
+    }
+  }
+
+  for (const [key, fieldValue] of Object.entries(result)) {
+    if (fieldValue === undefined) {
+      continue;
+    }
+
+    const prop = properties[key];
+    if (prop) {
+      result[key] = validateValue(fieldValue, prop, [...loc, key], details);
+    } else if (schema.additionalProperties === false) {
+      details.push({
+        type: 'extra_forbidden',
+        loc: [...loc, key],
+        msg: 'Extra inputs are not permitted',
+        input: fieldValue,
+      });
+    } else if (typeof schema.additionalProperties === 'object') {
+      result[key] = validateValue(fieldValue, schema.additionalProperties, [...loc, key], details);
+    }
+  }
+
+  return result;
+}
+
+function validateOneOf(
+  value: any,
+  options: JsonSchema[],
+  loc: Array<string | number>,
+  details: ValidationErrorDetail[]
+): any {
+  const matches: Array<{ value: any }> = [];
+  const branchErrors: ValidationErrorDetail[][] = [];
+
+  for (const option of options) {
+    const optionDetails: ValidationErrorDetail[] = [];
+    const optionValue = validateValue(value, option, loc, optionDetails);
+    if (optionDetails.length === 0) {
+      matches.push({ value: optionValue });
+    } else {
+      branchErrors.push(optionDetails);
+    }
+  }
+
+  if (matches.length === 1) {
+    return matches[0].value;
+  }
+
+  if (matches.length === 0) {
+    // Report the branch that got furthest, so the message points at the actual problem
+    // An empty oneOf matches nothing
+    const closest = branchErrors.reduce(
+      (best, current) => (current.length < best.length ? current : best),
+      branchErrors[0] ?? []
+    );
+    if (closest.length > 0 && closest.every((detail) => detail.loc.length > loc.length)) {
+      details.push(...closest);
+    } else {
+      details.push({
+        type: 'union_no_match',
+        loc,
+        msg: 'Input does not match any of the allowed schemas',
+        input: value,
+      });
+    }
+  } else {
+    details.push({
+      type: 'union_multiple_match',
+      loc,
+      msg: 'Input matches more than one of the allowed schemas',
+      input: value,
+    });
+  }
+
+  return value;
+}
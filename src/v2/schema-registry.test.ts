@@ -0,0 +1,84 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SchemaRegistry } from './schema-registry';
+import { BadInputError } from '../errors';
+import { ModelSchema } from './types';
+
+const nanoBanana: ModelSchema = {
+  endpoint: 'nano-banana-pro',
+  name: 'Nano Banana Pro',
+  inputSchema: {
+    type: 'object',
+    properties: { prompt: { type: 'string' } },
+    required: ['prompt'],
+  },
+};
+
+const soul: ModelSchema = {
+  endpoint: '/v1/text2image/soul',
+  name: 'Soul',
+  inputSchema: { type: 'object', properties: { prompt: { type: 'string' } } },
+};
+
+describe('SchemaRegistry', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hf-schemas-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should load schemas from supported object shapes', () => {
+    expect(SchemaRegistry.fromObject({ models: [nanoBanana, soul] }).size).toBe(2);
+    expect(SchemaRegistry.fromObject([nanoBanana]).size).toBe(1);
+    expect(SchemaRegistry.fromObject(soul).endpoints()).toEqual(['/v1/text2image/soul']);
+
+    const keyed = SchemaRegistry.fromObject({
+      'nano-banana-pro': { name: 'Nano Banana Pro', inputSchema: nanoBanana.inputSchema },
+    });
+    expect(keyed.get('nano-banana-pro')?.name).toBe('Nano Banana Pro');
+  });
+
+  it('should look up endpoints with or without a leading slash', () => {
+    const registry = new SchemaRegistry([nanoBanana, soul]);
+
+    expect(registry.get('/nano-banana-pro')).toBe(nanoBanana);
+    expect(registry.has('v1/text2image/soul')).toBe(true);
+    expect(registry.has('unknown')).toBe(false);
+  });
+
+  it('should register custom endpoints, replacing existing ones', () => {
+    const registry = new SchemaRegistry([nanoBanana]);
+    registry.register({ ...nanoBanana, name: 'Custom' });
+
+    expect(registry.size).toBe(1);
+    expect(registry.get('nano-banana-pro')?.name).toBe('Custom');
+  });
+
+  it('should load schemas from a file and a directory', () => {
+    fs.writeFileSync(path.join(dir, 'a.json'), JSON.stringify({ models: [nanoBanana] }));
+    fs.writeFileSync(path.join(dir, 'b.json'), JSON.stringify(soul));
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'ignored');
+
+    expect(SchemaRegistry.fromFile(path.join(dir, 'a.json')).endpoints()).toEqual([
+      'nano-banana-pro',
+    ]);
+    expect(SchemaRegistry.fromDirectory(dir).endpoints()).toEqual([
+      'nano-banana-pro',
+      '/v1/text2image/soul',
+    ]);
+  });
+
+  it('should reject invalid files', () => {
+    const file = path.join(dir, 'broken.json');
+    fs.writeFileSync(file, '{ not json');
+    expect(() => SchemaRegistry.fromFile(file)).toThrow(BadInputError);
+
+    fs.writeFileSync(file, JSON.stringify([{ name: 'No endpoint' }]));
+    expect(() => SchemaRegistry.fromFile(file)).toThrow(/must have a non-empty endpoint/);
+  });
+});
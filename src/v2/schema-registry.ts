@@ -0,0 +1,173 @@
+import fs from 'fs';
+import path from 'path';
+import { BadInputError } from '../errors';
+import { normalizeEndpoint } from './schema-loader';
+import { ModelSchema, ModelSchemasResponse } from './types';
+
+/**
+ * Schema sources accepted by SchemaRegistry:
+ * - `{ models: [...] }` (ModelSchemasResponse)
+ * - an array of schemas
+ * - a single schema
+ * - an object keyed by endpoint, e.g. `{ "nano-banana-pro": { name, inputSchema } }`
+ */
+export type SchemaSource =
+  | ModelSchemasResponse
+  | ModelSchema[]
+  | ModelSchema
+  | Record<string, Omit<ModelSchema, 'endpoint'> & { endpoint?: string }>;
+
+/**
+ * Local registry of model input schemas, keyed by endpoint
+ * @example
+ * const registry = SchemaRegistry.fromDirectory('./schemas');
+ * const client = createHiggsfieldClient({ credentials, schemas: registry });
+ */
+export class SchemaRegistry {
+  private schemas = new Map<string, ModelSchema>();
+
+  constructor(schemas: ModelSchema[] = []) {
+    for (const schema of schemas) {
+      this.register(schema);
+    }
+  }
+
+  /**
+   * Create a registry from an in-memory object
+   */
+  static fromObject(source: SchemaSource): SchemaRegistry {
+    return new SchemaRegistry().loadObject(source);
+  }
+
+  /**
+   * Create a registry from a JSON file
+   */
+  static fromFile(filePath: string): SchemaRegistry {
+    return new SchemaRegistry().loadFile(filePath);
+  }
+
+  /**
+   * Create a registry from every .json file in a directory
+   */
+  static fromDirectory(dirPath: string): SchemaRegistry {
+    return new SchemaRegistry().loadDirectory(dirPath);
+  }
+
+  /**
+   * Add schemas from an in-memory object. Existing endpoints are replaced.
+   */
+  loadObject(source: SchemaSource): this {
+    for (const schema of toSchemaList(source)) {
+      this.register(schema);
+    }
+    return this;
+  }
+
+  /**
+   * Add schemas from a JSON file. Existing endpoints are replaced.
+   */
+  loadFile(filePath: string): this {
+    const content = fs.readFileSync(filePath, 'utf8');
+
+    let source: SchemaSource;
+    try {
+      source = JSON.parse(content);
+    } catch (error) {
+      throw new BadInputError(`Invalid JSON in schema file ${filePath}`);
+    }
+
+    try {
+      return this.loadObject(source);
+    } catch (error) {
+      if (error instanceof BadInputError) {
+        throw new BadInputError(`${filePath}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Add schemas from every .json file in a directory, in file name order
+   */
+  loadDirectory(dirPath: string): this {
+    const files = fs
+      .readdirSync(dirPath)
+      .filter((file) => file.endsWith('.json'))
+      .sort();
+
+    for (const file of files) {
+      this.loadFile(path.join(dirPath, file));
+    }
+    return this;
+  }
+
+  /**
+   * Register a schema, replacing any schema for the same endpoint
+   */
+  register(schema: ModelSchema): this {
+    assertModelSchema(schema);
+    this.schemas.set(normalizeEndpoint(schema.endpoint), schema);
+    return this;
+  }
+
+  unregister(endpoint: string): boolean {
+    return this.schemas.delete(normalizeEndpoint(endpoint));
+  }
+
+  /**
+   * Look up the schema for an endpoint, ignoring a leading slash
+   */
+  get(endpoint: string): ModelSchema | undefined {
+    return this.schemas.get(normalizeEndpoint(endpoint));
+  }
+
+  has(endpoint: string): boolean {
+    return this.schemas.has(normalizeEndpoint(endpoint));
+  }
+
+  list(): ModelSchema[] {
+    return Array.from(this.schemas.values());
+  }
+
+  endpoints(): string[] {
+    return this.list().map((schema) => schema.endpoint);
+  }
+
+  get size(): number {
+    return this.schemas.size;
+  }
+
+  toJSON(): ModelSchemasResponse {
+    return { models: this.list() };
+  }
+}
+
+function toSchemaList(source: SchemaSource): ModelSchema[] {
+  if (Array.isArray(source)) {
+    return source;
+  }
+  if (!source || typeof source !== 'object') {
+    throw new BadInputError('Schema source must be an object or an array');
+  }
+  if (Array.isArray((source as ModelSchemasResponse).models)) {
+    return (source as ModelSchemasResponse).models;
+  }
+  if ('inputSchema' in source) {
+    return [source as ModelSchema];
+  }
+
+  // Object keyed by endpoint
+  return Object.entries(source).map(([endpoint, schema]) => ({
+    ...(schema as Omit<ModelSchema, 'endpoint'>),
+    endpoint: (schema as { endpoint?: string }).endpoint || endpoint,
+  }));
+}
+
+function assertModelSchema(schema: ModelSchema): void {
+  if (!schema || typeof schema.endpoint !== 'string' || schema.endpoint.trim() === '') {
+    throw new BadInputError('Model schema must have a non-empty endpoint');
+  }
+  if (!schema.inputSchema || typeof schema.inputSchema !== 'object') {
+    throw new BadInputError(`Model schema for ${schema.endpoint} must have an inputSchema object`);
+  }
+}
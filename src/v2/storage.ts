@@ -0,0 +1,61 @@
+import { UploadSource } from '../types';
+import { isBlob, isReadableStream, UploadOptions } from '../utils/upload';
+
+export interface StorageClient {
+  /**
+   * Upload data to Higgsfield CDN.
+   * Files and streams are streamed from disk and failed transfers are retried.
+   * @returns The public URL of the uploaded file
+   */
+  upload(data: UploadSource, options?: UploadOptions): Promise<string>;
+}
+
+/**
+ * Whether a value inside `input` should be uploaded before submission
+ */
+export function isUploadable(value: unknown): boolean {
+  return (
+    value instanceof Uint8Array ||
+    isBlob(value) ||
+    isReadableStream(value) ||
+    (typeof value === 'string' && value.startsWith('file://'))
+  );
+}
+/**
+ * Walks `input` and uploads every Buffer, Uint8Array, Blob, readable stream
+ * and `file://` path it finds, replacing each one with its public URL
+ */
+export async function uploadInputFiles(
+  input: any,
+  upload: (source: UploadSource) => Promise<string>
+): Promise<any> {
+  if (isUploadable(input)) {
+    return upload(input);
+  }
+
+  if (Array.isArray(input)) {
+    const result = [];
+    for (const item of input) {
+      result.push(await uploadInputFiles(item, upload));
+    }
+    return result;
+  }
+
+  if (isPlainObject(input)) {
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(input)) {
+      result[key] = await uploadInputFiles(value, upload);
+    }
+    return result;
+  }
+
+  return input;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
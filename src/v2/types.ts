@@ -1,3 +1,5 @@
+import { UploadSource } from '../types';
+
 // Base endpoint input types for known endpoints
 export interface DoPImage2VideoInput {
   model: 'dop-lite' | 'dop-turbo' | 'dop-standard';
@@ -57,14 +59,66 @@ export interface EndpointInputMap {
 export type EndpointInput<TEndpoint extends keyof EndpointInputMap> = 
   EndpointInputMap[TEndpoint];
 
+// Allows local files in place of `*_url` fields - subscribe() uploads them first
+export type WithUploads<T> = T extends string | number | boolean
+  ? T
+  : T extends Array<infer TItem>
+    ? Array<WithUploads<TItem>>
+    : {
+        [K in keyof T]: K extends `${string}_url` ? T[K] | UploadSource : WithUploads<T[K]>;
+      };
+
+// Input type accepted by subscribe() - unknown endpoints take any input
+export type SubscribeInput<TEndpoint extends string> = TEndpoint extends keyof EndpointInputMap
+  ? WithUploads<EndpointInputMap[TEndpoint]>
+  : Record<string, any>;
+
+// Subset of JSON Schema used by model input schemas
+export type JsonSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'array'
+  | 'object'
+  | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  default?: any;
+  enum?: any[];
+  const?: any;
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  // Arrays
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  // Objects
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  // Composition
+  oneOf?: JsonSchema[];
+}
+
 // Model schema from backend/CMS
 export interface ModelSchema {
   endpoint: string;
   name: string;
   description?: string;
-  inputSchema: {
+  inputSchema: JsonSchema & {
     type: 'object';
-    properties: Record<string, any>;
+    properties: Record<string, JsonSchema>;
     required?: string[];
   };
 }
@@ -74,22 +128,105 @@ export interface ModelSchemasResponse {
 }
 
 // V2 API Response Types
-export type V2RequestStatus = 'queued' | 'in_progress' | 'completed' | 'failed' | 'nsfw';
+export type V2RequestStatus =
+  | 'queued'
+  | 'in_progress'
+  | 'completed'
+  | 'failed'
+  | 'nsfw'
+  | 'canceled';
 
 export interface V2Image {
   url: string;
+  width?: number;
+  height?: number;
 }
 
 export interface V2Video {
   url: string;
+  width?: number;
+  height?: number;
+}
+
+export interface V2ImageOutput {
+  images: V2Image[];
+}
+
+export interface V2VideoOutput {
+  video: V2Video;
+}
+
+// Output of an endpoint whose output type is unknown - images, a video or both
+export type V2Output =
+  | (V2ImageOutput & Partial<V2VideoOutput>)
+  | (V2VideoOutput & Partial<V2ImageOutput>);
+
+// Endpoint to Output Type Mapping for built-in endpoints
+export interface EndpointOutputMap {
+  '/v1/image2video/dop': V2VideoOutput;
+  '/v1/speak/higgsfield': V2VideoOutput;
+  '/v1/text2image/soul': V2ImageOutput;
 }
 
-export interface V2Response {
+// Output type returned by subscribe() - unknown endpoints may return images or video
+export type EndpointOutput<TEndpoint extends string> = TEndpoint extends keyof EndpointOutputMap
+  ? EndpointOutputMap[TEndpoint]
+  : V2Output;
+
+export interface V2ResponseBase {
   status: V2RequestStatus;
   request_id: string;
   status_url: string;
   cancel_url: string;
-  images?: V2Image[];
-  video?: V2Video;
+  idempotency_key?: string; // Key the request was submitted with, added by the SDK
+}
+
+// Failure details as returned by the server
+export interface V2FailureDetails {
+  error?: string; // Error message
+  reason?: string; // Machine-readable reason, when provided
 }
 
+export type V2PendingResponse<TOutput = V2Output> = V2ResponseBase &
+  Partial<TOutput> & {
+    status: 'queued' | 'in_progress';
+  };
+
+// A completed request always has its outputs
+export type V2CompletedResponse<TOutput = V2Output> = V2ResponseBase &
+  TOutput & {
+    status: 'completed';
+  };
+
+export type V2FailedResponse<TOutput = V2Output> = V2ResponseBase &
+  Partial<TOutput> &
+  V2FailureDetails & {
+    status: 'failed';
+  };
+
+export type V2NsfwResponse<TOutput = V2Output> = V2ResponseBase &
+  Partial<TOutput> &
+  V2FailureDetails & {
+    status: 'nsfw';
+  };
+
+export type V2CanceledResponse<TOutput = V2Output> = V2ResponseBase &
+  Partial<TOutput> & {
+    status: 'canceled';
+  };
+
+/**
+ * Response of a v2 request, discriminated by `status`
+ * @example
+ * if (response.status === 'completed') {
+ *   console.log(response.images[0].url);
+ * } else if (response.status === 'failed' || response.status === 'nsfw') {
+ *   console.warn(response.error);
+ * }
+ */
+export type V2Response<TOutput = V2Output> =
+  | V2PendingResponse<TOutput>
+  | V2CompletedResponse<TOutput>
+  | V2FailedResponse<TOutput>
+  | V2NsfwResponse<TOutput>
+  | V2CanceledResponse<TOutput>;
@@ -0,0 +1,201 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  createExpressWebhookHandler,
+  createFetchWebhookHandler,
+  createNodeWebhookHandler,
+  parseWebhookPayload,
+  verifyWebhookSecret,
+  WebhookEvent,
+} from './webhooks';
+import { BadInputError } from './errors';
+
+const v2Payload = {
+  status: 'completed',
+  request_id: 'req-1',
+  status_url: 'https://platform.higgsfield.ai/requests/req-1/status',
+  cancel_url: 'https://platform.higgsfield.ai/requests/req-1/cancel',
+  images: [{ url: 'https://image.url/example.jpg' }],
+};
+
+describe('Webhooks', () => {
+  describe('verifyWebhookSecret', () => {
+    it('should accept a matching secret', () => {
+      expect(verifyWebhookSecret('my-secret', 'my-secret')).toBe(true);
+      expect(verifyWebhookSecret(['my-secret'], 'my-secret')).toBe(true);
+    });
+
+    it('should reject a wrong or missing secret', () => {
+      expect(verifyWebhookSecret('other-secret', 'my-secret')).toBe(false);
+      expect(verifyWebhookSecret('my-secret-longer', 'my-secret')).toBe(false);
+      expect(verifyWebhookSecret(undefined, 'my-secret')).toBe(false);
+    });
+  });
+
+  describe('parseWebhookPayload', () => {
+    it('should parse v2 responses', () => {
+      const event = parseWebhookPayload(JSON.stringify(v2Payload));
+      expect(event.version).toBe('v2');
+      expect(event.payload).toEqual(v2Payload);
+    });
+
+    it('should parse v1 job sets', () => {
+      const event = parseWebhookPayload(Buffer.from(JSON.stringify({ id: 'set-1', jobs: [] })));
+      expect(event.version).toBe('v1');
+    });
+
+    it('should reject unknown payloads', () => {
+      expect(() => parseWebhookPayload('not json')).toThrow(BadInputError);
+      expect(() => parseWebhookPayload({ foo: 'bar' })).toThrow(BadInputError);
+    });
+  });
+
+  describe('createFetchWebhookHandler', () => {
+    it('should verify, parse and dispatch events', async () => {
+      const events: WebhookEvent[] = [];
+      const handler = createFetchWebhookHandler({
+        secret: 'my-secret',
+        onEvent: (event) => {
+          events.push(event);
+        },
+      });
+
+      const accepted = await handler(
+        new Request('http://localhost/webhook', {
+          method: 'POST',
+          headers: { 'X-Webhook-Secret-Key': 'my-secret' },
+          body: JSON.stringify(v2Payload),
+        })
+      );
+      const rejected = await handler(
+        new Request('http://localhost/webhook', {
+          method: 'POST',
+          headers: { 'X-Webhook-Secret-Key': 'wrong' },
+          body: JSON.stringify(v2Payload),
+        })
+      );
+
+      expect(accepted.status).toBe(200);
+      expect(rejected.status).toBe(401);
+      expect(events).toHaveLength(1);
+    });
+  });
+
+  describe('createExpressWebhookHandler', () => {
+    it('should use parsed bodies and read the stream only when no parser did', async () => {
+      const events: WebhookEvent[] = [];
+      const handler = createExpressWebhookHandler({
+        secret: 'my-secret',
+        onEvent: (event) => {
+          events.push(event);
+        },
+      });
+      // Stands in for express.json(): parses JSON bodies, leaves others unread with {}
+      const server = http.createServer(async (req, res) => {
+        const request = req as typeof req & { body?: unknown };
+        request.body = {};
+        if (req.headers['content-type'] === 'application/json') {
+          const chunks: Buffer[] = [];
+          for await (const chunk of req) {
+            chunks.push(chunk);
+          }
+          request.body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+        }
+        const response = {
+          status: (code: number) => {
+            res.statusCode = code;
+            return response;
+          },
+          json: (body: unknown) => res.end(JSON.stringify(body)),
+        };
+        await handler(request, response);
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+      const post = (contentType: string, body: string) =>
+        fetch(`http://127.0.0.1:${port}/`, {
+          method: 'POST',
+          headers: { 'X-Webhook-Secret-Key': 'my-secret', 'Content-Type': contentType },
+          body,
+          signal: AbortSignal.timeout(2000),
+        });
+
+      try {
+        expect((await post('application/json', JSON.stringify(v2Payload))).status).toBe(200);
+        expect((await post('text/plain', JSON.stringify(v2Payload))).status).toBe(200);
+        expect((await post('application/json', '{}')).status).toBe(400);
+        expect(events).toHaveLength(2);
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
+
+  describe('createNodeWebhookHandler', () => {
+    it('should handle requests from an http server', async () => {
+      const events: WebhookEvent[] = [];
+      const server = http.createServer(
+        createNodeWebhookHandler({
+          secret: 'my-secret',
+          onEvent: (event) => {
+            events.push(event);
+          },
+        })
+      );
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+
+      try {
+        const response = await fetch(`http://127.0.0.1:${port}/`, {
+          method: 'POST',
+          headers: { 'X-Webhook-Secret-Key': 'my-secret' },
+          body: JSON.stringify({ id: 'set-1', jobs: [] }),
+        });
+
+        expect(response.status).toBe(200);
+        expect(events[0].version).toBe('v1');
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+
+    it('should reject before reading, cap the body size and survive aborted requests', async () => {
+      const onEvent = jest.fn();
+      const unhandled = jest.fn();
+      process.on('unhandledRejection', unhandled);
+      const server = http.createServer(
+        createNodeWebhookHandler({ secret: 'my-secret', maxBodySize: 100, onEvent })
+      );
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+      const url = `http://127.0.0.1:${port}/`;
+
+      try {
+        const unauthenticated = await fetch(url, { method: 'POST', body: 'x'.repeat(1000) });
+        const tooLarge = await fetch(url, {
+          method: 'POST',
+          headers: { 'X-Webhook-Secret-Key': 'my-secret' },
+          body: JSON.stringify({ id: 'set-1', jobs: [], padding: 'x'.repeat(1000) }),
+        });
+        expect(unauthenticated.status).toBe(401);
+        expect(tooLarge.status).toBe(413);
+
+        await new Promise<void>((resolve) => {
+          const request = http.request(url, {
+            method: 'POST',
+            headers: { 'X-Webhook-Secret-Key': 'my-secret', 'Content-Length': 50 },
+          });
+          request.on('error', () => resolve());
+          request.write('{"id"', () => setTimeout(() => request.destroy(), 20));
+        });
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        expect(unhandled).not.toHaveBeenCalled();
+        expect(onEvent).not.toHaveBeenCalled();
+      } finally {
+        process.off('unhandledRejection', unhandled);
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
+});
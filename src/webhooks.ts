@@ -0,0 +1,288 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import { APIError, BadInputError, WebhookVerificationError } from './errors';
+import { JobSetData } from './types';
+import { V2Response } from './v2/types';
+
+/**
+ * Header carrying the secret passed to webhook() when the request was submitted
+ */
+export const WEBHOOK_SECRET_HEADER = 'X-Webhook-Secret-Key';
+
+export type WebhookEvent =
+  | { version: 'v2'; payload: V2Response }
+  | { version: 'v1'; payload: JobSetData };
+
+export interface WebhookHandlerOptions {
+  secret: string;
+  onEvent: (event: WebhookEvent) => void | Promise<void>;
+  maxBodySize?: number; // Bytes, default: 1 MiB; larger bodies get a 413
+}
+
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+type WebhookBody = string | Buffer | Uint8Array | object;
+
+/**
+ * Minimal Express-compatible request and response shapes,
+ * so the SDK does not depend on express itself
+ */
+export interface ExpressLikeRequest extends IncomingMessage {
+  body?: unknown;
+}
+
+export interface ExpressLikeResponse {
+  status(code: number): ExpressLikeResponse;
+  json(body: unknown): unknown;
+}
+
+/**
+ * Checks the received secret header against the expected secret in constant time
+ * @param received - Value of the X-Webhook-Secret-Key header
+ * @param secret - The secret passed to webhook() when submitting
+ * @returns true if the secrets match
+ * @example
+ * verifyWebhookSecret(req.headers['x-webhook-secret-key'], process.env.WEBHOOK_SECRET);
+ */
+export function verifyWebhookSecret(
+  received: string | string[] | null | undefined,
+  secret: string
+): boolean {
+  const value = Array.isArray(received) ? received[0] : received;
+  if (!value || !secret) {
+    return false;
+  }
+
+  // Compare digests so the comparison does not leak the secret length
+  const expectedDigest = createHash('sha256').update(secret).digest();
+  const receivedDigest = createHash('sha256').update(value).digest();
+  return timingSafeEqual(expectedDigest, receivedDigest);
+}
+
+/**
+ * Parses a webhook body into a v2 response or a v1 job set
+ * @param body - Raw body (string or Buffer) or an already parsed object
+ * @returns The typed webhook event
+ * @throws BadInputError if the body is not a recognized webhook payload
+ */
+export function parseWebhookPayload(body: string | Buffer | Uint8Array | object): WebhookEvent {
+  let data: any = body;
+
+  if (typeof body === 'string' || body instanceof Uint8Array) {
+    try {
+      data = JSON.parse(Buffer.from(body).toString('utf8'));
+    } catch (error) {
+      throw new BadInputError('Webhook body must be valid JSON');
+    }
+  }
+
+  if (data && typeof data === 'object') {
+    if (typeof data.request_id === 'string' && typeof data.status === 'string') {
+      return { version: 'v2', payload: data as V2Response };
+    }
+    if (typeof data.id === 'string' && Array.isArray(data.jobs)) {
+      return { version: 'v1', payload: data as JobSetData };
+    }
+  }
+
+  throw new BadInputError('Unrecognized webhook payload');
+}
+
+/**
+ * Verifies the secret header and parses the body in one step
+ * @throws WebhookVerificationError if the secret does not match
+ * @throws BadInputError if the body is not a recognized webhook payload
+ */
+export function constructWebhookEvent(
+  body: string | Buffer | Uint8Array | object,
+  receivedSecret: string | string[] | null | undefined,
+  secret: string
+): WebhookEvent {
+  if (!verifyWebhookSecret(receivedSecret, secret)) {
+    throw new WebhookVerificationError();
+  }
+  return parseWebhookPayload(body);
+}
+
+/**
+ * Reads a request body of at most `maxBodySize` bytes.
+ * Rejects if the client disconnects first, and with a 413 APIError once the limit is passed.
+ */
+function readBody(req: IncomingMessage, maxBodySize: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const tooLarge = () => new APIError(`Webhook body exceeds ${maxBodySize} bytes`, 413);
+    if (Number(req.headers['content-length']) > maxBodySize) {
+      reject(tooLarge());
+      req.resume();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer | string) => {
+      size += chunk.length;
+      if (size > maxBodySize) {
+        // Keep draining without buffering, so the response can still be sent
+        req.off('data', onData);
+        req.resume();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(Buffer.from(chunk));
+    };
+
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+    req.on('close', () => {
+      if (!req.complete) {
+        reject(new BadInputError('Webhook request was aborted before the body was received'));
+      }
+    });
+  });
+}
+
+/**
+ * Checks the secret before reading the body, so unauthenticated callers cannot make
+ * the receiver buffer anything
+ */
+async function handleEvent(
+  options: WebhookHandlerOptions,
+  receivedSecret: string | string[] | null | undefined,
+  readRequestBody: () => Promise<WebhookBody>
+): Promise<{ status: number; body: { received: boolean; error?: string } }> {
+  if (!verifyWebhookSecret(receivedSecret, options.secret)) {
+    const error = new WebhookVerificationError();
+    return { status: 401, body: { received: false, error: error.message } };
+  }
+
+  let event: WebhookEvent;
+  try {
+    event = parseWebhookPayload(await readRequestBody());
+  } catch (error) {
+    const status = error instanceof APIError && error.statusCode === 413 ? 413 : 400;
+    return { status, body: { received: false, error: (error as Error).message } };
+  }
+
+  try {
+    await options.onEvent(event);
+  } catch (error) {
+    return { status: 500, body: { received: false, error: 'Webhook handler failed' } };
+  }
+
+  return { status: 200, body: { received: true } };
+}
+
+/**
+ * Creates a request listener for Node's http module
+ * @example
+ * http.createServer(createNodeWebhookHandler({
+ *   secret: 'my-secret-key',
+ *   onEvent: (event) => console.log(event.payload)
+ * })).listen(3000);
+ */
+export function createNodeWebhookHandler(
+  options: WebhookHandlerOptions
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  return async (req, res) => {
+    const result = await handleEvent(
+      options,
+      req.headers[WEBHOOK_SECRET_HEADER.toLowerCase()],
+      () => readBody(req, options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE)
+    );
+
+    res.statusCode = result.status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(result.body));
+  };
+}
+
+/**
+ * Creates an Express-style route handler.
+ * Works with express.json(), express.raw() and express.text() body parsers, or with none.
+ * @example
+ * app.post('/webhooks/higgsfield', createExpressWebhookHandler({
+ *   secret: 'my-secret-key',
+ *   onEvent: (event) => console.log(event.payload)
+ * }));
+ */
+export function createExpressWebhookHandler(
+  options: WebhookHandlerOptions
+): (req: ExpressLikeRequest, res: ExpressLikeResponse) => Promise<void> {
+  return async (req, res) => {
+    const result = await handleEvent(
+      options,
+      req.headers[WEBHOOK_SECRET_HEADER.toLowerCase()],
+      async () =>
+        hasUnreadBody(req)
+          ? readBody(req, options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE)
+          : (req.body as WebhookBody)
+    );
+
+    res.status(result.status).json(result.body);
+  };
+}
+
+// Body parsers that did not match the content type leave the stream unread and may leave
+// an empty object behind; once a parser has read the stream, its result is all there is
+function hasUnreadBody(req: ExpressLikeRequest): boolean {
+  if (req.readableEnded) {
+    return false;
+  }
+  return (
+    req.body === undefined ||
+    req.body === null ||
+    (typeof req.body === 'object' &&
+      !(req.body instanceof Uint8Array) &&
+      Object.keys(req.body).length === 0)
+  );
+}
+
+/**
+ * Creates a handler for Fetch API based servers (Next.js route handlers, Hono, Bun, Deno)
+ * @example
+ * export const POST = createFetchWebhookHandler({
+ *   secret: 'my-secret-key',
+ *   onEvent: (event) => console.log(event.payload)
+ * });
+ */
+export function createFetchWebhookHandler(
+  options: WebhookHandlerOptions
+): (request: Request) => Promise<Response> {
+  return async (request) => {
+    const result = await handleEvent(options, request.headers.get(WEBHOOK_SECRET_HEADER), () =>
+      readFetchBody(request, options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE)
+    );
+
+    return new Response(JSON.stringify(result.body), {
+      status: result.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+}
+
+async function readFetchBody(request: Request, maxBodySize: number): Promise<Buffer> {
+  const tooLarge = () => new APIError(`Webhook body exceeds ${maxBodySize} bytes`, 413);
+  if (Number(request.headers.get('content-length')) > maxBodySize) {
+    throw tooLarge();
+  }
+  if (!request.body) {
+    return Buffer.alloc(0);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const reader = request.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return Buffer.concat(chunks);
+    }
+    size += value.byteLength;
+    if (size > maxBodySize) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(Buffer.from(value));
+  }
+}